@@ -0,0 +1,26 @@
+import "dotenv/config";
+
+import { pino } from "pino";
+
+import { loadConfig } from "../src/config.js";
+import { createLedger } from "../src/lib/ledger.js";
+import { createPayoutJob } from "../src/lib/payouts.js";
+import { buildLoggerOptions } from "../src/logger.js";
+
+// One payout sweep against the configured ledger and RPCs. Point BASE_RPC_URL (or RPC_URL_<chainId>) at a
+// local node, e.g. an anvil fork, to try it without moving real funds.
+async function main(): Promise<void> {
+  const config = loadConfig();
+  const ledger = createLedger(config);
+  const log = pino(buildLoggerOptions(config));
+  try {
+    const results = await createPayoutJob(config, ledger, log).run();
+    const ok = results.every((result) => !result.error);
+    log[ok ? "info" : "error"]({ ok, payouts: results }, "payout_sweep_complete");
+    if (!ok) process.exitCode = 1;
+  } finally {
+    await ledger.close();
+  }
+}
+
+void main();
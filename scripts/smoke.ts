@@ -1,6 +1,10 @@
 import { randomUUID } from "node:crypto";
 import type { AddressInfo } from "node:net";
 
+import { ExactEvmScheme } from "@x402/evm/exact/client";
+import { decodePaymentResponseHeader, wrapFetchWithPaymentFromConfig } from "@x402/fetch";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
 import { buildApp } from "../src/app.js";
 import { loadConfig } from "../src/config.js";
 
@@ -32,6 +36,37 @@ async function assertStatus(response: Response, expected: number, message: strin
   }
 }
 
+// Pays for /v1/echo through the real x402 handshake against FACILITATOR_MODE=local, using a throwaway
+// buyer key that holds no funds.
+async function smokeLocalFacilitator(): Promise<void> {
+  const config = loadConfig({ ...process.env, FACILITATOR_MODE: "local", X402_DEV_BYPASS: "false" });
+  const app = await buildApp(config);
+
+  try {
+    await app.listen({ host: "127.0.0.1", port: 0 });
+    const address = app.server.address() as AddressInfo;
+    const paidFetch = wrapFetchWithPaymentFromConfig(fetch, {
+      schemes: [{ network: config.network.network, client: new ExactEvmScheme(privateKeyToAccount(generatePrivateKey())) }],
+    });
+
+    const paid = await paidFetch(`http://127.0.0.1:${address.port}/v1/echo`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": randomUUID(),
+      },
+      body: JSON.stringify({ hello: "world" }),
+    });
+    await assertStatus(paid, 200, "POST /v1/echo paid through the local facilitator should return 200");
+    const settlement = decodePaymentResponseHeader(paid.headers.get("payment-response") ?? "");
+    if (!settlement.success || !settlement.transaction) {
+      throw new Error(`Local facilitator did not settle: ${JSON.stringify(settlement)}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
 async function main(): Promise<void> {
   setSmokeEnv();
   const config = loadConfig();
@@ -72,11 +107,12 @@ async function main(): Promise<void> {
       body: JSON.stringify({ hello: "world" }),
     });
     await assertStatus(bypassed, 200, "POST /v1/echo with dev bypass should return 200");
-
-    console.log("Smoke checks passed");
   } finally {
     await app.close();
   }
+
+  await smokeLocalFacilitator();
+  console.log("Smoke checks passed");
 }
 
 void main();
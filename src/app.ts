@@ -1,21 +1,50 @@
+import { randomUUID } from "node:crypto";
+
 import compress from "@fastify/compress";
 import etag from "@fastify/etag";
 import middie from "@fastify/middie";
-import Fastify, { type FastifyInstance } from "fastify";
+import type { FacilitatorClient } from "@x402/core/server";
+import Fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
 import { Counter, Registry, collectDefaultMetrics } from "prom-client";
-import { base } from "viem/chains";
 import { createPublicClient, http } from "viem";
 
 import type { AppConfig } from "./config.js";
 import { AppError, sendError } from "./lib/errors.js";
 import { headRequest } from "./lib/httpClient.js";
+import { compileTrustProxy } from "./lib/clientIp.js";
+import { createCreditStore, type CreditStore } from "./lib/credits.js";
+import { getNetworkDefinition } from "./lib/networks.js";
+import { createAccessPasses } from "./lib/passes.js";
+import { createPayoutJob, type UsdcBatchTransfer } from "./lib/payouts.js";
+import { createPriceQuotes } from "./lib/quotes.js";
+import { createReceiptSigner } from "./lib/receipts.js";
+import { assertRevenueSplitRoutesPriced, splitRevenue } from "./lib/revenue.js";
+import { createTransactionLookup, type TransactionLookup } from "./lib/transactions.js";
+import { createWalletPolicy } from "./lib/walletPolicy.js";
 import { IdempotencyStore } from "./lib/idempotencyStore.js";
+import { createStateStores, type StateStores } from "./lib/stateStore.js";
+import { createLedger, type Ledger, type LedgerEntry, type LedgerOutcome } from "./lib/ledger.js";
+import { assertPaidRoutesPriced, createPricingRegistry, isPaidPath, routeKey } from "./lib/pricing.js";
 import { buildLoggerOptions } from "./logger.js";
 import { createRateLimitController } from "./middleware/rateLimit.js";
 import { createRequirePaymentMiddleware } from "./middleware/requirePayment.js";
+import { registerIdempotencyReplay } from "./middleware/idempotency.js";
+import { registerReceiptSigning } from "./middleware/receiptSigning.js";
 import { registerRequestContext } from "./middleware/requestContext.js";
+import { registerSettlement } from "./middleware/settlement.js";
+import { createWalletScreeningHook } from "./middleware/walletScreening.js";
 import { registerRoutes } from "./routes/index.js";
+import {
+  buildCreditRoutes,
+  buildRouteRateLimits,
+  buildRoutesConfig,
+  buildSettlementPolicies,
+  createPaymentRequiredDescriber,
+  type PaidRouteDefinition,
+} from "./routes/paidRoute.js";
+import { PAID_ROUTES } from "./routes/v1/index.js";
 import { createX402Middleware } from "./x402/createX402Middleware.js";
+import { createFakeFacilitator } from "./x402/fakeFacilitator.js";
 
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
   return new Promise((resolve, reject) => {
@@ -28,6 +57,27 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string)
   });
 }
 
+function toLedgerEntry(request: FastifyRequest, config: AppConfig, status: number, outcome: LedgerOutcome): LedgerEntry {
+  const context = request.requestContext;
+  const route = request.routeOptions.url ?? request.url;
+  const splits = splitRevenue(config.revenueSplits[routeKey(request.method, route)], context.amount ?? "", context.receiver ?? "");
+  return {
+    requestId: context.requestId,
+    createdAt: new Date(context.startedAt).toISOString(),
+    route,
+    paidMode: context.paidMode || "",
+    payer: context.wallet ?? "",
+    receiver: context.receiver ?? "",
+    amount: context.amount ?? "",
+    network: context.network ?? "",
+    txHash: context.txHash ?? "",
+    idempotencyKey: context.idempotencyKey ?? "",
+    status,
+    outcome,
+    ...(splits.length > 0 ? { splits: splits.map((split) => ({ ...split, payout: "" })) } : {}),
+  };
+}
+
 function registerMetrics(app: FastifyInstance, config: AppConfig): void {
   if (!config.metricsEnabled) return;
 
@@ -61,14 +111,31 @@ function registerMetrics(app: FastifyInstance, config: AppConfig): void {
   });
 }
 
-export async function buildApp(config: AppConfig): Promise<FastifyInstance> {
+export interface AppDependencies {
+  // Replaces the facilitator selected by FACILITATOR_MODE, e.g. with createFakeFacilitator in tests.
+  facilitatorClient?: FacilitatorClient;
+  ledger?: Ledger;
+  credits?: CreditStore;
+  state?: StateStores;
+  // Replaces the RPC lookup behind GET /v1/receipts/:requestId.
+  lookupTransaction?: TransactionLookup;
+  // Replaces the on-chain USDC transfer used by the partner payout job.
+  transferUsdc?: UsdcBatchTransfer;
+  // Replaces PAID_ROUTES, e.g. to mount test-only routes behind the real payment gate.
+  paidRoutes?: PaidRouteDefinition[];
+}
+
+export async function buildApp(config: AppConfig, deps: AppDependencies = {}): Promise<FastifyInstance> {
+  const trustProxy = compileTrustProxy(config.trustProxy);
   const app = Fastify({
     logger: buildLoggerOptions(config),
     bodyLimit: config.bodyLimitBytes,
     requestTimeout: config.requestTimeoutMs,
-    trustProxy: true,
+    trustProxy,
     disableRequestLogging: true,
-    requestIdHeader: "x-request-id",
+    // Request ids key the ledger and receipt lookups, so they are never taken from the client.
+    requestIdHeader: false,
+    genReqId: () => randomUUID(),
   });
 
   app.setErrorHandler((error, _request, reply) => {
@@ -94,38 +161,113 @@ export async function buildApp(config: AppConfig): Promise<FastifyInstance> {
 
   await registerRequestContext(app);
 
-  const rateLimit = createRateLimitController(config.rateLimitPerMin, config.rateLimitUnpaidPerMin);
+  const state = deps.state ?? createStateStores(config);
+  const paidRoutes = deps.paidRoutes ?? PAID_ROUTES;
+  const rateLimit = createRateLimitController(
+    {
+      globalPerMinute: config.rateLimitPerMin,
+      unpaidPerMinute: config.rateLimitUnpaidPerMin,
+      walletPerMinute: config.rateLimitWalletPerMin,
+      routeLimits: buildRouteRateLimits(paidRoutes),
+      dailySpendCapUsdc: config.spendCapDailyUsdc,
+      trustProxy,
+    },
+    state.rateLimit,
+    state.spend,
+  );
   app.addHook("onRequest", rateLimit.globalOnRequest);
 
-  const idempotencyStore = new IdempotencyStore();
+  const idempotencyStore = new IdempotencyStore(state.idempotency, {
+    ttlMs: config.idempotencyTtlMs,
+    lockTtlMs: config.idempotencyLockTtlMs,
+  });
+  const ledger = deps.ledger ?? createLedger(config);
+  const credits = deps.credits ?? createCreditStore(config);
+  app.decorate("credits", credits);
+  const passes = createAccessPasses(config);
+  app.decorate("passes", passes);
+  const walletPolicy = createWalletPolicy(config, app.log);
+  app.addHook("onClose", async () => {
+    walletPolicy?.close();
+    await passes.close();
+    await credits.close();
+    await ledger.close();
+    await state.close();
+  });
 
   const rpcClient = createPublicClient({
-    chain: base,
-    transport: http(config.baseRpcUrl, { timeout: config.upstreamTimeoutMs }),
+    chain: getNetworkDefinition(config.network.chainId).chain,
+    transport: http(config.network.rpcUrl, { timeout: config.upstreamTimeoutMs }),
   });
 
-  await app.register(middie);
+  const pricing = createPricingRegistry(config, paidRoutes);
+  const quotes = createPriceQuotes(config, pricing);
+  const describePayment = createPaymentRequiredDescriber(paidRoutes, config, pricing);
+  const paidRouteKeys: string[] = [];
+  app.addHook("onRoute", (route) => {
+    if (!isPaidPath(route.url)) return;
+    const methods = Array.isArray(route.method) ? route.method : [route.method];
+    for (const method of methods) {
+      paidRouteKeys.push(routeKey(method, route.url));
+    }
+  });
+
+  // Payment middleware runs after body validation so dynamic prices can be quoted from the parsed body.
+  await app.register(middie, { hook: "preHandler" });
 
   app.use(rateLimit.unpaidAttemptMiddleware);
 
-  const x402Bundle = config.x402DevBypass ? undefined : createX402Middleware(config);
+  // FACILITATOR_MODE=local runs the real x402 handshake against the in-process fake facilitator, so
+  // client code can be tested end to end with a throwaway wallet and no chain.
+  const localFacilitator =
+    config.facilitatorMode === "local" && !deps.facilitatorClient
+      ? createFakeFacilitator({ networks: config.acceptedNetworks, enforceBalances: false })
+      : undefined;
+  const x402Bundle = config.x402DevBypass
+    ? undefined
+    : createX402Middleware(
+        config,
+        buildRoutesConfig(paidRoutes, config, pricing, quotes),
+        deps.facilitatorClient ?? localFacilitator,
+      );
   const requirePayment = createRequirePaymentMiddleware({
     x402Middleware: x402Bundle?.middleware,
     devBypassEnabled: config.x402DevBypass,
     nodeEnv: config.nodeEnv,
-    chainId: config.chainId,
-    receiverAddress: config.receiverAddress,
-    amount: config.priceUsdc,
+    network: config.network,
+    pricing,
+    credits,
+    creditRoutes: buildCreditRoutes(paidRoutes),
+    passes,
+    quotes,
+    describePayment,
   });
 
   app.use(requirePayment);
+  if (walletPolicy) {
+    app.addHook("preHandler", createWalletScreeningHook(walletPolicy));
+  }
+  registerSettlement(app, { x402: x402Bundle, credits, passes, policies: buildSettlementPolicies(paidRoutes) });
+  const receiptSigner = createReceiptSigner(config);
+  registerReceiptSigning(app, receiptSigner, config.publicBaseUrl);
+  registerIdempotencyReplay(app, idempotencyStore, walletPolicy);
 
   await registerRoutes(app, {
     config,
+    paidRoutes,
+    pricing,
+    quotes,
+    describePayment,
     idempotencyStore,
+    rateLimit,
+    ledger,
+    walletPolicy,
+    credits,
+    receiptSigner,
+    lookupTransaction: deps.lookupTransaction ?? localFacilitator?.lookupTransaction ?? createTransactionLookup(config),
     ready: {
       checkRpc: async () => {
-        await withTimeout(rpcClient.getBlockNumber(), config.upstreamTimeoutMs, "Base RPC timeout");
+        await withTimeout(rpcClient.getBlockNumber(), config.upstreamTimeoutMs, `${config.network.name} RPC timeout`);
       },
       checkOptionalUpstream: async () => {
         if (!config.upstreamHealthUrl) return;
@@ -134,18 +276,33 @@ export async function buildApp(config: AppConfig): Promise<FastifyInstance> {
     },
   });
 
+  assertPaidRoutesPriced(paidRouteKeys, pricing);
+  assertRevenueSplitRoutesPriced(config.revenueSplits, pricing);
+
+  if (config.payoutIntervalMs) {
+    const payouts = createPayoutJob(config, ledger, app.log, deps.transferUsdc);
+    payouts.start(config.payoutIntervalMs);
+    app.addHook("onClose", () => payouts.stop());
+  }
+
   registerMetrics(app, config);
 
   app.addHook("onResponse", async (request, reply) => {
     if (!request.url.startsWith("/v1/")) return;
 
-    if (reply.statusCode === 402) {
-      rateLimit.recordUnpaidAttempt(request);
-      return;
+    const context = request.requestContext;
+    const outcome: LedgerOutcome | undefined = context.paidMode === "dev_bypass" ? "dev_bypass" : context.settlement;
+    if (outcome) {
+      try {
+        await ledger.record(toLedgerEntry(request, config, reply.statusCode, outcome));
+      } catch (error) {
+        request.log.error({ err: error, request_id: context.requestId }, "ledger_record_failed");
+      }
     }
 
-    if (reply.statusCode < 400 && request.requestContext.paid && request.requestContext.idempotencyKey) {
-      idempotencyStore.markSeen(request.requestContext.idempotencyKey);
+    await rateLimit.releaseUnsettledSpend(request);
+    if (reply.statusCode === 402) {
+      await rateLimit.recordUnpaidAttempt(request);
     }
   });
 
@@ -1,5 +1,31 @@
-const REQUIRED_CHAIN_ID = 8453;
-const USDC_DECIMALS = 6;
+import { randomBytes } from "node:crypto";
+
+import { compileTrustProxy, type TrustProxy } from "./lib/clientIp.js";
+import { NETWORKS, toCaipNetwork, type CaipNetwork } from "./lib/networks.js";
+import type { RevenueSplit } from "./lib/revenue.js";
+
+const DEFAULT_CHAIN_ID = 8453;
+const DEFAULT_FACILITATOR_URL = "https://x402.org/facilitator";
+
+// "self" verifies and settles in-process with SELLER_PRIVATE_KEY; "remote" delegates to an HTTP facilitator;
+// "local" uses the in-process fake facilitator, for end-to-end client tests without a chain.
+export type FacilitatorMode = "self" | "remote" | "local";
+
+export type LedgerDriver = "sqlite" | "memory";
+
+export type StateDriver = "memory" | "sqlite" | "redis";
+
+export interface NetworkConfig {
+  chainId: number;
+  network: CaipNetwork;
+  name: string;
+  testnet: boolean;
+  rpcUrl: string;
+  usdcContract: `0x${string}`;
+  usdcName: string;
+  usdcVersion: string;
+  receiverAddress: `0x${string}`;
+}
 
 export interface AppConfig {
   nodeEnv: string;
@@ -7,16 +33,25 @@ export interface AppConfig {
   logLevel: string;
   serviceName: string;
   version: string;
-  chainId: number;
-  baseRpcUrl: string;
-  sellerPrivateKey: `0x${string}`;
-  usdcContract: `0x${string}`;
-  receiverAddress: `0x${string}`;
+  network: NetworkConfig;
+  // Every network a payer may settle on, primary first.
+  acceptedNetworks: NetworkConfig[];
+  mainnetOnly: boolean;
+  facilitatorMode: FacilitatorMode;
+  facilitatorUrl: string;
+  facilitatorAuthHeaders: Record<string, string>;
+  sellerPrivateKey?: `0x${string}`;
+  // Signs the EIP-712 proof on every receipt; see /meta for the public address.
+  receiptPrivateKey: `0x${string}`;
   priceUsdc: string;
-  priceBaseUnits: string;
   publicBaseUrl: string;
+  // Proxies whose X-Forwarded-For entries are believed when resolving the client IP.
+  trustProxy: TrustProxy;
   rateLimitPerMin: number;
   rateLimitUnpaidPerMin: number;
+  rateLimitWalletPerMin: number;
+  // Most a payer may spend in x402 payments per UTC day; unset for no cap.
+  spendCapDailyUsdc?: string;
   bodyLimitBytes: number;
   requestTimeoutMs: number;
   upstreamTimeoutMs: number;
@@ -24,6 +59,30 @@ export interface AppConfig {
   x402DevBypass: boolean;
   metricsEnabled: boolean;
   metricsSecret?: string;
+  ledgerDriver: LedgerDriver;
+  ledgerPath: string;
+  adminToken?: string;
+  // JSON file of denied, screened and allowlisted payer wallets; no screening when unset.
+  walletPolicyPath?: string;
+  // HMAC key for access pass tokens and price quote ids; required in production, random per process otherwise when unset.
+  passSecret: string;
+  // How long a quote id from POST /quote locks its price.
+  quoteTtlSeconds: number;
+  // Partner shares per route key ("POST /v1/dns"); the primary receiver keeps the rest.
+  revenueSplits: Record<string, RevenueSplit[]>;
+  // Partner payouts are swept on this interval when set; otherwise only by `npm run payouts`.
+  payoutIntervalMs?: number;
+  // Partners are paid once their unpaid shares on a network reach this amount.
+  payoutMinUsdc: string;
+  // Where idempotency entries and rate-limit counters live; "memory" is per process.
+  stateDriver: StateDriver;
+  statePath: string;
+  redisUrl: string;
+  idempotencyTtlMs: number;
+  idempotencyMaxEntries: number;
+  // How long a key stays reserved by a request that never completes.
+  idempotencyLockTtlMs: number;
+  rateLimitMaxKeys: number;
 }
 
 interface EnvLike {
@@ -68,6 +127,150 @@ function parsePrivateKey(value: string, key: string): `0x${string}` {
   return value as `0x${string}`;
 }
 
+function parseFacilitatorMode(env: EnvLike): FacilitatorMode {
+  const raw = env.FACILITATOR_MODE ?? "self";
+  if (raw !== "self" && raw !== "remote" && raw !== "local") {
+    throw new Error(`Invalid FACILITATOR_MODE: ${raw}. Expected "self", "remote" or "local"`);
+  }
+  return raw;
+}
+
+function parseLedgerDriver(env: EnvLike): LedgerDriver {
+  const raw = env.LEDGER_DRIVER ?? "sqlite";
+  if (raw !== "sqlite" && raw !== "memory") {
+    throw new Error(`Invalid LEDGER_DRIVER: ${raw}. Expected "sqlite" or "memory"`);
+  }
+  return raw;
+}
+
+function parseStateDriver(env: EnvLike): StateDriver {
+  const raw = env.STATE_DRIVER ?? "memory";
+  if (raw !== "memory" && raw !== "sqlite" && raw !== "redis") {
+    throw new Error(`Invalid STATE_DRIVER: ${raw}. Expected "memory", "sqlite" or "redis"`);
+  }
+  return raw;
+}
+
+function parseHeadersEnv(env: EnvLike, key: string): Record<string, string> {
+  const raw = env[key];
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid JSON for ${key}`);
+  }
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    Object.values(parsed).some((value) => typeof value !== "string")
+  ) {
+    throw new Error(`${key} must be a JSON object of header names to string values`);
+  }
+  return parsed as Record<string, string>;
+}
+
+// Falls back to the seller key. Receipts must verify on every replica and after restarts, so only
+// development may fall back further, to a per-process key.
+function parseReceiptPrivateKey(env: EnvLike, sellerPrivateKey: `0x${string}` | undefined, nodeEnv: string): `0x${string}` {
+  if (env.RECEIPT_PRIVATE_KEY) return parsePrivateKey(env.RECEIPT_PRIVATE_KEY, "RECEIPT_PRIVATE_KEY");
+  if (sellerPrivateKey) return sellerPrivateKey;
+  if (nodeEnv === "production") {
+    throw new Error("RECEIPT_PRIVATE_KEY is required when NODE_ENV=production");
+  }
+  return `0x${randomBytes(32).toString("hex")}`;
+}
+
+// Passes and quote ids must verify on every replica and after restarts, so production needs a fixed key.
+function parsePassSecret(env: EnvLike, nodeEnv: string): string {
+  const raw = env.PASS_SECRET;
+  if (!raw && nodeEnv === "production") {
+    throw new Error("PASS_SECRET is required when NODE_ENV=production");
+  }
+  if (!raw) return randomBytes(32).toString("hex");
+  if (raw.length < 32) {
+    throw new Error("PASS_SECRET must be at least 32 characters");
+  }
+  return raw;
+}
+
+function parseRevenueSplits(env: EnvLike, primaryReceiver: string): Record<string, RevenueSplit[]> {
+  const raw = env.REVENUE_SPLITS;
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid JSON for REVENUE_SPLITS");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("REVENUE_SPLITS must be a JSON object of route keys to split lists");
+  }
+
+  const splits: Record<string, RevenueSplit[]> = {};
+  for (const [route, entries] of Object.entries(parsed)) {
+    if (!/^[A-Z]+ \/\S*$/.test(route) || !Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`REVENUE_SPLITS entry "${route}" must map a route key like "POST /v1/dns" to a non-empty array`);
+    }
+    const seen = new Set<string>([primaryReceiver.toLowerCase()]);
+    let total = 0;
+    splits[route] = entries.map((entry: { address?: unknown; percent?: unknown }) => {
+      const address = parseHexAddress(String(entry?.address ?? ""), `REVENUE_SPLITS["${route}"]`);
+      if (seen.has(address.toLowerCase())) {
+        throw new Error(`REVENUE_SPLITS["${route}"] lists ${address} twice or names the primary receiver`);
+      }
+      seen.add(address.toLowerCase());
+      const percent = entry?.percent;
+      if (typeof percent !== "number" || percent <= 0 || Math.abs(Math.round(percent * 100) - percent * 100) > 1e-9) {
+        throw new Error(`REVENUE_SPLITS["${route}"] percent for ${address} must be > 0 with at most two decimals`);
+      }
+      total += percent;
+      return { address, percent };
+    });
+    if (total > 100 + 1e-9) {
+      throw new Error(`REVENUE_SPLITS["${route}"] shares add up to more than 100 percent`);
+    }
+  }
+  return splits;
+}
+
+function parsePayoutInterval(env: EnvLike): number | undefined {
+  return env.PAYOUT_INTERVAL_SECONDS ? parseIntEnv(env, "PAYOUT_INTERVAL_SECONDS", 0) * 1000 : undefined;
+}
+
+const DEFAULT_TRUSTED_PROXIES = ["loopback", "linklocal", "uniquelocal"];
+
+function parseTrustProxy(env: EnvLike): TrustProxy {
+  const raw = env.TRUST_PROXY?.trim();
+  if (!raw) return DEFAULT_TRUSTED_PROXIES;
+  if (raw === "false") return 0;
+  if (raw === "true") {
+    throw new Error("TRUST_PROXY=true would let any caller choose its IP; list proxy addresses/CIDRs or a hop count");
+  }
+  if (/^\d+$/.test(raw)) return Number.parseInt(raw, 10);
+
+  const trusted = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  try {
+    compileTrustProxy(trusted);
+  } catch (error) {
+    throw new Error(`Invalid TRUST_PROXY: ${(error as Error).message}`);
+  }
+  return trusted;
+}
+
+function parseUsdcEnv(env: EnvLike, key: string): string | undefined {
+  const raw = env[key];
+  if (!raw) return undefined;
+  if (!/^\d+(\.\d{1,6})?$/.test(raw) || Number(raw) <= 0) {
+    throw new Error(`Invalid USDC amount for ${key}: ${raw}`);
+  }
+  return raw;
+}
+
 function normalizeUsdcPrice(value: string): string {
   if (!/^\d+(\.\d+)?$/.test(value)) {
     throw new Error(`Invalid PRICE_USDC value: ${value}`);
@@ -79,21 +282,64 @@ function normalizeUsdcPrice(value: string): string {
   return trimmed;
 }
 
-function usdcToBaseUnits(value: string): string {
-  const [wholeRaw, fractionRaw = ""] = value.split(".");
-  const whole = wholeRaw || "0";
-  const fraction = `${fractionRaw}000000`.slice(0, USDC_DECIMALS);
-  const normalized = `${whole}${fraction}`.replace(/^0+(?=\d)/, "");
-  return normalized || "0";
+function parseChainIdList(env: EnvLike, key: string): number[] {
+  const raw = env[key];
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const parsed = Number.parseInt(entry, 10);
+      if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new Error(`Invalid chain id in ${key}: ${entry}`);
+      }
+      return parsed;
+    });
 }
 
-export function loadConfig(env: EnvLike = process.env): AppConfig {
-  const chainId = parseIntEnv(env, "CHAIN_ID", REQUIRED_CHAIN_ID);
-  if (chainId !== REQUIRED_CHAIN_ID) {
-    throw new Error(`CHAIN_ID must be ${REQUIRED_CHAIN_ID}, received: ${chainId}`);
+// Network-specific env vars (RPC_URL_<chainId>, USDC_CONTRACT_<chainId>, RECEIVER_ADDRESS_<chainId>)
+// take precedence; BASE_RPC_URL and USDC_CONTRACT apply to the primary network only, while
+// RECEIVER_ADDRESS is shared by every network without its own receiver.
+function loadNetworkConfig(env: EnvLike, chainId: number, primary: boolean): NetworkConfig {
+  const definition = NETWORKS[chainId];
+  if (!definition) {
+    throw new Error(`Unsupported CHAIN_ID: ${chainId}. Supported: ${Object.keys(NETWORKS).join(", ")}`);
   }
 
+  const rpcKey = env[`RPC_URL_${chainId}`] || !primary ? `RPC_URL_${chainId}` : "BASE_RPC_URL";
+  const usdcKey = env[`USDC_CONTRACT_${chainId}`] || !primary ? `USDC_CONTRACT_${chainId}` : "USDC_CONTRACT";
+  const receiverKey = env[`RECEIVER_ADDRESS_${chainId}`] ? `RECEIVER_ADDRESS_${chainId}` : "RECEIVER_ADDRESS";
+  const usdcContract = env[usdcKey];
+
+  return {
+    chainId,
+    network: toCaipNetwork(chainId),
+    name: definition.name,
+    testnet: definition.testnet,
+    rpcUrl: primary ? requireEnv(env, rpcKey) : (env[rpcKey] || definition.defaultRpcUrl),
+    usdcContract: usdcContract ? parseHexAddress(usdcContract, usdcKey) : definition.usdcContract,
+    usdcName: definition.usdcName,
+    usdcVersion: definition.usdcVersion,
+    receiverAddress: parseHexAddress(requireEnv(env, receiverKey), receiverKey),
+  };
+}
+
+export function loadConfig(env: EnvLike = process.env): AppConfig {
   const nodeEnv = env.NODE_ENV ?? "development";
+  const network = loadNetworkConfig(env, parseIntEnv(env, "CHAIN_ID", DEFAULT_CHAIN_ID), true);
+  const acceptedNetworks = [
+    network,
+    ...[...new Set(parseChainIdList(env, "ACCEPTED_CHAIN_IDS"))]
+      .filter((chainId) => chainId !== network.chainId)
+      .map((chainId) => loadNetworkConfig(env, chainId, false)),
+  ];
+  const mainnetOnly = parseBoolEnv(env, "MAINNET_ONLY", nodeEnv === "production");
+  for (const accepted of acceptedNetworks) {
+    if (mainnetOnly && accepted.testnet) {
+      throw new Error(`CHAIN_ID ${accepted.chainId} is a testnet; set MAINNET_ONLY=false to allow it`);
+    }
+  }
   const x402DevBypass = parseBoolEnv(env, "X402_DEV_BYPASS", false);
   if (nodeEnv === "production" && x402DevBypass) {
     throw new Error("X402_DEV_BYPASS cannot be enabled in production");
@@ -101,22 +347,37 @@ export function loadConfig(env: EnvLike = process.env): AppConfig {
 
   const priceUsdc = normalizeUsdcPrice(requireEnv(env, "PRICE_USDC"));
 
+  // Remote facilitators pay settlement gas themselves, so the seller key is only required in self mode.
+  const facilitatorMode = parseFacilitatorMode(env);
+  if (nodeEnv === "production" && facilitatorMode === "local") {
+    throw new Error("FACILITATOR_MODE=local cannot be used in production");
+  }
+  const sellerPrivateKey =
+    facilitatorMode === "self" || env.SELLER_PRIVATE_KEY
+      ? parsePrivateKey(requireEnv(env, "SELLER_PRIVATE_KEY"), "SELLER_PRIVATE_KEY")
+      : undefined;
+
   return {
     nodeEnv,
     port: parseIntEnv(env, "PORT", 3000),
     logLevel: env.LOG_LEVEL ?? "info",
     serviceName: requireEnv(env, "SERVICE_NAME"),
     version: env.npm_package_version ?? "1.0.0",
-    chainId,
-    baseRpcUrl: requireEnv(env, "BASE_RPC_URL"),
-    sellerPrivateKey: parsePrivateKey(requireEnv(env, "SELLER_PRIVATE_KEY"), "SELLER_PRIVATE_KEY"),
-    usdcContract: parseHexAddress(requireEnv(env, "USDC_CONTRACT"), "USDC_CONTRACT"),
-    receiverAddress: parseHexAddress(requireEnv(env, "RECEIVER_ADDRESS"), "RECEIVER_ADDRESS"),
+    network,
+    acceptedNetworks,
+    mainnetOnly,
+    facilitatorMode,
+    facilitatorUrl: (env.FACILITATOR_URL || DEFAULT_FACILITATOR_URL).replace(/\/+$/, ""),
+    facilitatorAuthHeaders: parseHeadersEnv(env, "FACILITATOR_AUTH_HEADERS"),
+    sellerPrivateKey,
+    receiptPrivateKey: parseReceiptPrivateKey(env, sellerPrivateKey, nodeEnv),
     priceUsdc,
-    priceBaseUnits: usdcToBaseUnits(priceUsdc),
     publicBaseUrl: requireEnv(env, "PUBLIC_BASE_URL"),
+    trustProxy: parseTrustProxy(env),
     rateLimitPerMin: parseIntEnv(env, "RATE_LIMIT_PER_MIN", 100),
     rateLimitUnpaidPerMin: parseIntEnv(env, "RATE_LIMIT_UNPAID_PER_MIN", 20),
+    rateLimitWalletPerMin: parseIntEnv(env, "RATE_LIMIT_WALLET_PER_MIN", 60),
+    spendCapDailyUsdc: parseUsdcEnv(env, "SPEND_CAP_DAILY_USDC"),
     bodyLimitBytes: parseIntEnv(env, "BODY_LIMIT_KB", 10) * 1024,
     requestTimeoutMs: parseIntEnv(env, "REQUEST_TIMEOUT_MS", 10_000),
     upstreamTimeoutMs: parseIntEnv(env, "UPSTREAM_TIMEOUT_MS", 3_000),
@@ -124,5 +385,22 @@ export function loadConfig(env: EnvLike = process.env): AppConfig {
     x402DevBypass,
     metricsEnabled: parseBoolEnv(env, "METRICS_ENABLED", false),
     metricsSecret: env.METRICS_SECRET,
+    ledgerDriver: parseLedgerDriver(env),
+    // Tests get a throwaway in-memory database unless they ask for a file.
+    ledgerPath: env.LEDGER_PATH || (nodeEnv === "test" ? ":memory:" : "data/ledger.db"),
+    adminToken: env.ADMIN_TOKEN || undefined,
+    walletPolicyPath: env.WALLET_POLICY_PATH || undefined,
+    passSecret: parsePassSecret(env, nodeEnv),
+    quoteTtlSeconds: parseIntEnv(env, "QUOTE_TTL_SECONDS", 300),
+    revenueSplits: parseRevenueSplits(env, network.receiverAddress),
+    payoutIntervalMs: parsePayoutInterval(env),
+    payoutMinUsdc: parseUsdcEnv(env, "PAYOUT_MIN_USDC") ?? "1",
+    stateDriver: parseStateDriver(env),
+    statePath: env.STATE_PATH || (nodeEnv === "test" ? ":memory:" : "data/state.db"),
+    redisUrl: env.REDIS_URL || "redis://127.0.0.1:6379",
+    idempotencyTtlMs: parseIntEnv(env, "IDEMPOTENCY_TTL_SECONDS", 600) * 1000,
+    idempotencyMaxEntries: parseIntEnv(env, "IDEMPOTENCY_MAX_ENTRIES", 10_000),
+    idempotencyLockTtlMs: parseIntEnv(env, "IDEMPOTENCY_LOCK_TTL_SECONDS", 60) * 1000,
+    rateLimitMaxKeys: parseIntEnv(env, "RATE_LIMIT_MAX_KEYS", 10_000),
   };
 }
@@ -0,0 +1,25 @@
+import type { IncomingMessage } from "node:http";
+
+import proxyAddr from "proxy-addr";
+
+// A hop count (proxies directly in front of the service), or the addresses, CIDRs and proxy-addr
+// presets ("loopback", "linklocal", "uniquelocal") of trusted proxies.
+export type TrustProxy = number | string[];
+
+export type TrustFunction = (address: string, hop: number) => boolean;
+
+// Throws on malformed addresses or CIDRs.
+export function compileTrustProxy(trust: TrustProxy): TrustFunction {
+  if (typeof trust === "number") {
+    return (_address, hop) => hop < trust;
+  }
+  return proxyAddr.compile(trust);
+}
+
+// Walks X-Forwarded-For from the socket peer outwards and stops at the first untrusted address, so
+// entries a client prepends itself are never reached. Fastify's request.ip resolves the same way when
+// built with the same trust function.
+export function resolveClientIp(req: IncomingMessage, trust: TrustFunction): string {
+  if (!req.socket.remoteAddress) return "unknown";
+  return proxyAddr(req, trust);
+}
@@ -0,0 +1,224 @@
+import { createHash, randomBytes } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import type { IncomingHttpHeaders } from "node:http";
+import { dirname } from "node:path";
+
+import Database from "better-sqlite3";
+import { getAddress, isAddress, verifyMessage } from "viem";
+
+import type { AppConfig } from "../config.js";
+import { AppError } from "./errors.js";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    credits: CreditStore;
+  }
+}
+
+export const CREDIT_TOKEN_HEADER = "x-credit-token";
+export const CREDIT_WALLET_HEADER = "x-credit-wallet";
+export const CREDIT_TIMESTAMP_HEADER = "x-credit-timestamp";
+export const CREDIT_SIGNATURE_HEADER = "x-credit-signature";
+
+// Signed credit messages are accepted for this long around the server clock.
+const SIGNATURE_WINDOW_SECONDS = 300;
+
+export interface CreditDebit {
+  debitedUsdc: string;
+  balanceUsdc: string;
+}
+
+// Prepaid USDC balances in base units, keyed by checksummed wallet address.
+export interface CreditStore {
+  balance(wallet: string): Promise<bigint>;
+  credit(wallet: string, amount: bigint): Promise<bigint>;
+  // Returns the remaining balance, or undefined when the balance does not cover the amount.
+  debit(wallet: string, amount: bigint): Promise<bigint | undefined>;
+  issueToken(wallet: string): Promise<string>;
+  resolveToken(token: string): Promise<string | undefined>;
+  close(): Promise<void>;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function newToken(): string {
+  return `cr_${randomBytes(24).toString("base64url")}`;
+}
+
+export class MemoryCreditStore implements CreditStore {
+  private readonly balances = new Map<string, bigint>();
+  private readonly tokens = new Map<string, string>();
+
+  async balance(wallet: string): Promise<bigint> {
+    return this.balances.get(getAddress(wallet)) ?? 0n;
+  }
+
+  // Balances are read and written with no await in between, so concurrent calls cannot both spend one balance.
+  async credit(wallet: string, amount: bigint): Promise<bigint> {
+    const key = getAddress(wallet);
+    const next = (this.balances.get(key) ?? 0n) + amount;
+    this.balances.set(key, next);
+    return next;
+  }
+
+  async debit(wallet: string, amount: bigint): Promise<bigint | undefined> {
+    const key = getAddress(wallet);
+    const current = this.balances.get(key) ?? 0n;
+    if (current < amount) return undefined;
+    this.balances.set(key, current - amount);
+    return current - amount;
+  }
+
+  async issueToken(wallet: string): Promise<string> {
+    const token = newToken();
+    this.tokens.set(hashToken(token), getAddress(wallet));
+    return token;
+  }
+
+  async resolveToken(token: string): Promise<string | undefined> {
+    return this.tokens.get(hashToken(token));
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class SqliteCreditStore implements CreditStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    // Balances are stored as decimal strings of base units; SQLite integers would cap at 2^63.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS credit_balances (
+        wallet TEXT PRIMARY KEY,
+        balance TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS credit_tokens (
+        token_hash TEXT PRIMARY KEY,
+        wallet TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  private read(wallet: string): bigint {
+    const row = this.db.prepare("SELECT balance FROM credit_balances WHERE wallet = ?").get(wallet) as
+      | { balance: string }
+      | undefined;
+    return row ? BigInt(row.balance) : 0n;
+  }
+
+  private write(wallet: string, balance: bigint): void {
+    this.db
+      .prepare(
+        `INSERT INTO credit_balances (wallet, balance, updated_at) VALUES (@wallet, @balance, @updatedAt)
+         ON CONFLICT (wallet) DO UPDATE SET balance = excluded.balance, updated_at = excluded.updated_at`,
+      )
+      .run({ wallet, balance: balance.toString(), updatedAt: Date.now() });
+  }
+
+  async balance(wallet: string): Promise<bigint> {
+    return this.read(getAddress(wallet));
+  }
+
+  async credit(wallet: string, amount: bigint): Promise<bigint> {
+    const address = getAddress(wallet);
+    return this.db.transaction(() => {
+      const next = this.read(address) + amount;
+      this.write(address, next);
+      return next;
+    }).immediate();
+  }
+
+  async debit(wallet: string, amount: bigint): Promise<bigint | undefined> {
+    const address = getAddress(wallet);
+    return this.db.transaction(() => {
+      const current = this.read(address);
+      if (current < amount) return undefined;
+      this.write(address, current - amount);
+      return current - amount;
+    }).immediate();
+  }
+
+  async issueToken(wallet: string): Promise<string> {
+    const token = newToken();
+    this.db
+      .prepare("INSERT INTO credit_tokens (token_hash, wallet, created_at) VALUES (?, ?, ?)")
+      .run(hashToken(token), getAddress(wallet), Date.now());
+    return token;
+  }
+
+  async resolveToken(token: string): Promise<string | undefined> {
+    const row = this.db.prepare("SELECT wallet FROM credit_tokens WHERE token_hash = ?").get(hashToken(token)) as
+      | { wallet: string }
+      | undefined;
+    return row?.wallet;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// Credits live next to the payment ledger so balances and the payments that funded them share a store.
+export function createCreditStore(config: AppConfig): CreditStore {
+  return config.ledgerDriver === "memory" ? new MemoryCreditStore() : new SqliteCreditStore(config.ledgerPath);
+}
+
+export function creditAuthMessage(method: string, path: string, idempotencyKey: string, timestamp: string): string {
+  return `x402 credits\n${method.toUpperCase()} ${path}\nidempotency-key: ${idempotencyKey}\ntimestamp: ${timestamp}`;
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Resolves the wallet a request spends credits from: either an issued token or a wallet signature
+// over creditAuthMessage. Returns undefined when the request carries no credit credentials.
+export async function resolveCreditWallet(
+  store: CreditStore,
+  headers: IncomingHttpHeaders,
+  method: string,
+  path: string,
+  now = Date.now(),
+): Promise<string | undefined> {
+  const token = header(headers, CREDIT_TOKEN_HEADER);
+  if (token) {
+    const wallet = await store.resolveToken(token);
+    if (!wallet) {
+      throw new AppError(401, "UNAUTHORIZED", "Unknown credit token");
+    }
+    return wallet;
+  }
+
+  const wallet = header(headers, CREDIT_WALLET_HEADER);
+  const timestamp = header(headers, CREDIT_TIMESTAMP_HEADER);
+  const signature = header(headers, CREDIT_SIGNATURE_HEADER);
+  if (!wallet && !timestamp && !signature) return undefined;
+
+  if (!wallet || !timestamp || !signature || !isAddress(wallet) || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    throw new AppError(401, "UNAUTHORIZED", "Credit signature requires wallet, timestamp and signature headers");
+  }
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_WINDOW_SECONDS) {
+    throw new AppError(401, "UNAUTHORIZED", "Credit signature timestamp is outside the allowed window");
+  }
+
+  const message = creditAuthMessage(method, path, header(headers, "idempotency-key") ?? "", timestamp);
+  const valid = await verifyMessage({
+    address: wallet,
+    message,
+    signature: signature as `0x${string}`,
+  }).catch(() => false);
+  if (!valid) {
+    throw new AppError(401, "UNAUTHORIZED", "Invalid credit signature");
+  }
+  return getAddress(wallet);
+}
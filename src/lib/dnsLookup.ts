@@ -4,8 +4,6 @@ import { domainToASCII } from "node:url";
 
 import { AppError } from "./errors.js";
 
-export const DNS_ROUTE_PRICE_USDC = "0.003";
-export const DNS_ROUTE_PRICE_BASE_UNITS = "3000";
 export const DNS_LOOKUP_TIMEOUT_MS = 3_000;
 export const SUPPORTED_DNS_RECORD_TYPES = ["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA"] as const;
 
@@ -3,9 +3,20 @@ import type { FastifyReply } from "fastify";
 export type ErrorCode =
   | "PAYMENT_REQUIRED"
   | "PAYMENT_INVALID"
+  | "SETTLEMENT_FAILED"
+  | "INSUFFICIENT_CREDITS"
+  | "PASS_INVALID"
+  | "PASS_EXHAUSTED"
+  | "QUOTE_INVALID"
+  | "QUOTE_EXPIRED"
   | "RATE_LIMITED"
+  | "SPEND_CAP_EXCEEDED"
+  | "WALLET_REJECTED"
+  | "UNAUTHORIZED"
+  | "RECEIPT_NOT_FOUND"
   | "IDEMPOTENCY_REQUIRED"
-  | "IDEMPOTENCY_REPLAY"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "IDEMPOTENCY_MISMATCH"
   | "INVALID_DOMAIN"
   | "INVALID_TEXT"
   | "INVALID_URL"
@@ -35,12 +35,6 @@ export function getHeader(req: IncomingMessage, name: string): string | undefine
   return value;
 }
 
-export function getIp(req: IncomingMessage): string {
-  const forwarded = getHeader(req, "x-forwarded-for");
-  if (forwarded) return forwarded.split(",")[0]?.trim() || req.socket.remoteAddress || "unknown";
-  return req.socket.remoteAddress || "unknown";
-}
-
 export function adaptExpressLikeRequest(req: IncomingMessage): ExpressLikeRequest {
   const target = req as ExpressLikeRequest;
   const originalUrl = req.url ?? "/";
@@ -1,28 +1,83 @@
-import { LRUCache } from "lru-cache";
+import { createHash } from "node:crypto";
 
-export interface IdempotencyEntry {
+import type { StateStore } from "./stateStore.js";
+
+export interface StoredResponse {
+  statusCode: number;
+  headers: Record<string, string | number | string[]>;
+  body: unknown;
+}
+
+// Keys are only unique per payer and route: two wallets, or two routes, may use the same key.
+export interface IdempotencyScope {
+  payer: string;
+  route: string;
   key: string;
+}
+
+export interface IdempotencyEntry extends IdempotencyScope {
   createdAt: number;
+  bodyHash: string;
+  // sha256 of the x402 payment header that paid for the response, when there was one.
+  credentialHash?: string;
+  response: StoredResponse;
+}
+
+function scopeKey(scope: IdempotencyScope): string {
+  return `${scope.payer.toLowerCase()}\n${scope.route}\n${scope.key}`;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+export function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// Key order does not change the hash, so clients may re-serialize the body on retry.
+export function hashBody(body: unknown): string {
+  return sha256(JSON.stringify(canonicalize(body ?? null)));
+}
+
+export interface IdempotencyStoreOptions {
+  ttlMs: number;
+  // Frees keys whose request never completes.
+  lockTtlMs: number;
 }
 
 export class IdempotencyStore {
-  private readonly cache: LRUCache<string, IdempotencyEntry>;
+  constructor(
+    private readonly state: StateStore,
+    private readonly options: IdempotencyStoreOptions,
+  ) {}
+
+  get(scope: IdempotencyScope): Promise<IdempotencyEntry | undefined> {
+    return this.state.get<IdempotencyEntry>(`entry\n${scopeKey(scope)}`);
+  }
 
-  constructor(ttlMs = 10 * 60 * 1000, max = 10_000) {
-    this.cache = new LRUCache<string, IdempotencyEntry>({
-      ttl: ttlMs,
-      max,
-    });
+  // Returns false when the key is already in progress or completed.
+  async reserve(scope: IdempotencyScope): Promise<boolean> {
+    const key = scopeKey(scope);
+    if (await this.state.get(`entry\n${key}`)) return false;
+    return this.state.setIfAbsent(`lock\n${key}`, Date.now(), this.options.lockTtlMs);
   }
 
-  has(key: string): boolean {
-    return this.cache.has(key);
+  async release(scope: IdempotencyScope): Promise<void> {
+    await this.state.delete(`lock\n${scopeKey(scope)}`);
   }
 
-  markSeen(key: string): void {
-    this.cache.set(key, {
-      key,
-      createdAt: Date.now(),
-    });
+  async markSeen(entry: Omit<IdempotencyEntry, "createdAt">): Promise<void> {
+    const key = scopeKey(entry);
+    await this.state.set(`entry\n${key}`, { ...entry, createdAt: Date.now() }, this.options.ttlMs);
+    await this.state.delete(`lock\n${key}`);
   }
 }
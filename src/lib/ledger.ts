@@ -0,0 +1,334 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import Database from "better-sqlite3";
+
+import type { AppConfig } from "../config.js";
+import type { RevenueShare } from "./revenue.js";
+
+export type LedgerOutcome = "settled" | "dev_bypass" | "not_charged" | "settlement_failed";
+
+export interface LedgerSplit extends RevenueShare {
+  // "" until a payout sweeps the share, "sending" (or "sending:<tx hash>" if unconfirmed) while its
+  // transfer is in flight, then the transfer's tx hash. The primary receiver's share is never swept.
+  payout: string;
+}
+
+export interface LedgerEntry {
+  requestId: string;
+  createdAt: string;
+  route: string;
+  paidMode: string;
+  payer: string;
+  receiver: string;
+  amount: string;
+  network: string;
+  txHash: string;
+  idempotencyKey: string;
+  status: number;
+  outcome: LedgerOutcome;
+  splits?: LedgerSplit[];
+}
+
+// A settled partner share that no payout has swept yet.
+export interface UnpaidShare {
+  requestId: string;
+  network: string;
+  receiver: string;
+  amount: string;
+}
+
+export interface ShareKey {
+  requestId: string;
+  receiver: string;
+}
+
+export interface LedgerQuery {
+  payer?: string;
+  route?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Durable record of paid requests, keyed by the server-generated request id. Implementations must be
+// safe to call from onResponse hooks, and must reject a second entry for the same request id.
+export interface Ledger {
+  record(entry: LedgerEntry): Promise<void>;
+  get(requestId: string): Promise<LedgerEntry | undefined>;
+  query(filter: LedgerQuery): Promise<LedgerEntry[]>;
+  unpaidShares(): Promise<UnpaidShare[]>;
+  setPayout(shares: ShareKey[], payout: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Flat columns for CSV exports; splits are only in the JSON view.
+export const LEDGER_COLUMNS: Array<Exclude<keyof LedgerEntry, "splits">> = [
+  "requestId",
+  "createdAt",
+  "route",
+  "paidMode",
+  "payer",
+  "receiver",
+  "amount",
+  "network",
+  "txHash",
+  "idempotencyKey",
+  "status",
+  "outcome",
+];
+
+const DEFAULT_QUERY_LIMIT = 1000;
+
+function matches(entry: LedgerEntry, filter: LedgerQuery): boolean {
+  const createdAt = Date.parse(entry.createdAt);
+  if (filter.payer && entry.payer.toLowerCase() !== filter.payer.toLowerCase()) return false;
+  if (filter.route && entry.route !== filter.route) return false;
+  if (filter.from && createdAt < filter.from.getTime()) return false;
+  if (filter.to && createdAt > filter.to.getTime()) return false;
+  return true;
+}
+
+function isPartnerShare(entry: LedgerEntry, split: LedgerSplit): boolean {
+  return split.receiver.toLowerCase() !== entry.receiver.toLowerCase();
+}
+
+export class MemoryLedger implements Ledger {
+  private readonly entries: LedgerEntry[] = [];
+
+  async record(entry: LedgerEntry): Promise<void> {
+    if (this.entries.some((existing) => existing.requestId === entry.requestId)) {
+      throw new Error(`Ledger already has an entry for request ${entry.requestId}`);
+    }
+    this.entries.push(entry);
+  }
+
+  async get(requestId: string): Promise<LedgerEntry | undefined> {
+    return this.entries.find((entry) => entry.requestId === requestId);
+  }
+
+  async query(filter: LedgerQuery): Promise<LedgerEntry[]> {
+    return this.entries
+      .filter((entry) => matches(entry, filter))
+      .reverse()
+      .slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  async unpaidShares(): Promise<UnpaidShare[]> {
+    return this.entries.flatMap((entry) =>
+      entry.outcome !== "settled"
+        ? []
+        : (entry.splits ?? [])
+            .filter((split) => split.payout === "" && isPartnerShare(entry, split))
+            .map((split) => ({ requestId: entry.requestId, network: entry.network, receiver: split.receiver, amount: split.amount })),
+    );
+  }
+
+  async setPayout(shares: ShareKey[], payout: string): Promise<void> {
+    for (const { requestId, receiver } of shares) {
+      const entry = await this.get(requestId);
+      const split = entry?.splits?.find((candidate) => candidate.receiver.toLowerCase() === receiver.toLowerCase());
+      if (split) split.payout = payout;
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+interface PaymentRow {
+  request_id: string;
+  created_at: number;
+  route: string;
+  paid_mode: string;
+  payer: string;
+  receiver: string;
+  amount: string;
+  network: string;
+  tx_hash: string;
+  idempotency_key: string;
+  status: number;
+  outcome: LedgerOutcome;
+}
+
+interface SplitRow {
+  request_id: string;
+  receiver: string;
+  percent: number;
+  amount: string;
+  payout: string;
+}
+
+function fromSplitRow(row: SplitRow): LedgerSplit {
+  return { receiver: row.receiver, percent: row.percent, amount: row.amount, payout: row.payout };
+}
+
+function fromRow(row: PaymentRow): LedgerEntry {
+  return {
+    requestId: row.request_id,
+    createdAt: new Date(row.created_at).toISOString(),
+    route: row.route,
+    paidMode: row.paid_mode,
+    payer: row.payer,
+    receiver: row.receiver,
+    amount: row.amount,
+    network: row.network,
+    txHash: row.tx_hash,
+    idempotencyKey: row.idempotency_key,
+    status: row.status,
+    outcome: row.outcome,
+  };
+}
+
+export class SqliteLedger implements Ledger {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS payments (
+        request_id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        route TEXT NOT NULL,
+        paid_mode TEXT NOT NULL,
+        payer TEXT NOT NULL,
+        receiver TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        network TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        outcome TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS payments_payer ON payments (payer COLLATE NOCASE, created_at);
+      CREATE INDEX IF NOT EXISTS payments_route ON payments (route, created_at);
+      CREATE INDEX IF NOT EXISTS payments_created_at ON payments (created_at);
+      CREATE TABLE IF NOT EXISTS revenue_splits (
+        request_id TEXT NOT NULL,
+        receiver TEXT NOT NULL COLLATE NOCASE,
+        percent REAL NOT NULL,
+        amount TEXT NOT NULL,
+        payout TEXT NOT NULL DEFAULT '',
+        PRIMARY KEY (request_id, receiver)
+      );
+      CREATE INDEX IF NOT EXISTS revenue_splits_payout ON revenue_splits (payout);
+    `);
+  }
+
+  // Entries with their splits attached, in one query however many entries there are.
+  private withSplits(rows: PaymentRow[]): LedgerEntry[] {
+    if (rows.length === 0) return [];
+    const splitRows = this.db
+      .prepare("SELECT * FROM revenue_splits WHERE request_id IN (SELECT value FROM json_each(?)) ORDER BY rowid")
+      .all(JSON.stringify(rows.map((row) => row.request_id))) as SplitRow[];
+    const splits = new Map<string, LedgerSplit[]>();
+    for (const split of splitRows) {
+      splits.set(split.request_id, [...(splits.get(split.request_id) ?? []), fromSplitRow(split)]);
+    }
+    return rows.map((row) => {
+      const entry = fromRow(row);
+      const entrySplits = splits.get(row.request_id);
+      return entrySplits ? { ...entry, splits: entrySplits } : entry;
+    });
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    this.db.transaction(() => {
+      const { splits, ...payment } = entry;
+      this.db
+        .prepare(
+          `INSERT INTO payments
+            (request_id, created_at, route, paid_mode, payer, receiver, amount, network, tx_hash, idempotency_key, status, outcome)
+           VALUES
+            (@requestId, @createdAt, @route, @paidMode, @payer, @receiver, @amount, @network, @txHash, @idempotencyKey, @status, @outcome)`,
+        )
+        .run({ ...payment, createdAt: Date.parse(entry.createdAt) });
+      const insertSplit = this.db.prepare(
+        `INSERT INTO revenue_splits (request_id, receiver, percent, amount, payout)
+         VALUES (@requestId, @receiver, @percent, @amount, @payout)`,
+      );
+      for (const split of splits ?? []) {
+        insertSplit.run({ requestId: entry.requestId, ...split });
+      }
+    })();
+  }
+
+  async get(requestId: string): Promise<LedgerEntry | undefined> {
+    const row = this.db.prepare("SELECT * FROM payments WHERE request_id = ?").get(requestId) as PaymentRow | undefined;
+    return row ? this.withSplits([row])[0] : undefined;
+  }
+
+  async query(filter: LedgerQuery): Promise<LedgerEntry[]> {
+    const clauses: string[] = [];
+    const params: Record<string, string | number> = { limit: filter.limit ?? DEFAULT_QUERY_LIMIT };
+
+    if (filter.payer) {
+      clauses.push("payer = @payer COLLATE NOCASE");
+      params.payer = filter.payer;
+    }
+    if (filter.route) {
+      clauses.push("route = @route");
+      params.route = filter.route;
+    }
+    if (filter.from) {
+      clauses.push("created_at >= @from");
+      params.from = filter.from.getTime();
+    }
+    if (filter.to) {
+      clauses.push("created_at <= @to");
+      params.to = filter.to.getTime();
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM payments ${where} ORDER BY created_at DESC, rowid DESC LIMIT @limit`)
+      .all(params) as PaymentRow[];
+    return this.withSplits(rows);
+  }
+
+  async unpaidShares(): Promise<UnpaidShare[]> {
+    return this.db
+      .prepare(
+        `SELECT s.request_id AS requestId, p.network AS network, s.receiver AS receiver, s.amount AS amount
+         FROM revenue_splits s JOIN payments p ON p.request_id = s.request_id
+         WHERE s.payout = '' AND p.outcome = 'settled' AND s.receiver <> p.receiver
+         ORDER BY s.rowid`,
+      )
+      .all() as UnpaidShare[];
+  }
+
+  async setPayout(shares: ShareKey[], payout: string): Promise<void> {
+    const update = this.db.prepare("UPDATE revenue_splits SET payout = ? WHERE request_id = ? AND receiver = ?");
+    this.db.transaction(() => {
+      for (const share of shares) {
+        update.run(payout, share.requestId, share.receiver);
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export function createLedger(config: AppConfig): Ledger {
+  return config.ledgerDriver === "memory" ? new MemoryLedger() : new SqliteLedger(config.ledgerPath);
+}
+
+function csvField(value: string | number): string {
+  // Idempotency keys are caller-controlled; keep spreadsheets from evaluating them as formulas.
+  const raw = String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: LedgerEntry[]): string {
+  const lines = [LEDGER_COLUMNS.join(",")];
+  for (const entry of entries) {
+    lines.push(LEDGER_COLUMNS.map((column) => csvField(entry[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
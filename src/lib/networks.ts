@@ -0,0 +1,58 @@
+import type { Chain } from "viem";
+import { base, baseSepolia } from "viem/chains";
+
+export type CaipNetwork = `eip155:${number}`;
+
+export interface NetworkDefinition {
+  chainId: number;
+  name: string;
+  chain: Chain;
+  testnet: boolean;
+  defaultRpcUrl: string;
+  usdcContract: `0x${string}`;
+  // EIP-712 domain of the USDC contract, needed by clients to sign EIP-3009 authorizations.
+  usdcName: string;
+  usdcVersion: string;
+}
+
+// Supported EVM networks. Adding a chain is one entry here; config, x402 requirements,
+// /meta, /catalog and receipts all resolve network details from this table.
+export const NETWORKS: Record<number, NetworkDefinition> = {
+  8453: {
+    chainId: 8453,
+    name: "base",
+    chain: base,
+    testnet: false,
+    defaultRpcUrl: "https://mainnet.base.org",
+    usdcContract: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    usdcName: "USD Coin",
+    usdcVersion: "2",
+  },
+  84532: {
+    chainId: 84532,
+    name: "base-sepolia",
+    chain: baseSepolia,
+    testnet: true,
+    defaultRpcUrl: "https://sepolia.base.org",
+    usdcContract: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    usdcName: "USDC",
+    usdcVersion: "2",
+  },
+};
+
+export function toCaipNetwork(chainId: number): CaipNetwork {
+  return `eip155:${chainId}`;
+}
+
+export function chainIdFromCaip(network: string): number | undefined {
+  const match = /^eip155:(\d+)$/.exec(network);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function getNetworkDefinition(chainId: number): NetworkDefinition {
+  const definition = NETWORKS[chainId];
+  if (!definition) {
+    throw new Error(`Unsupported chain id: ${chainId}`);
+  }
+  return definition;
+}
@@ -0,0 +1,179 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import Database from "better-sqlite3";
+import { getAddress } from "viem";
+
+import type { AppConfig } from "../config.js";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    passes: AccessPasses;
+  }
+}
+
+export const PASS_HEADER = "x-access-pass";
+
+export interface PassOffer {
+  id: string;
+  description: string;
+  priceUsdc: string;
+  // Route keys ("POST /v1/dns") the pass pays for.
+  routes: string[];
+  durationSeconds: number;
+  // Omitted for unlimited use within the pass window.
+  maxCalls?: number;
+}
+
+export interface PassClaims {
+  id: string;
+  offer: string;
+  wallet: string;
+  routes: string[];
+  expiresAt: number;
+  maxCalls?: number;
+}
+
+export interface PassUsage {
+  passId: string;
+  offer: string;
+  expiresAt: string;
+  callsUsed: number;
+  callsRemaining?: number;
+}
+
+// Server-side call counts per pass id.
+export interface PassStore {
+  usage(passId: string): Promise<number>;
+  // Returns the call count after this call, or undefined when maxCalls is already reached.
+  consume(passId: string, maxCalls?: number): Promise<number | undefined>;
+  close(): Promise<void>;
+}
+
+export class MemoryPassStore implements PassStore {
+  private readonly calls = new Map<string, number>();
+
+  async usage(passId: string): Promise<number> {
+    return this.calls.get(passId) ?? 0;
+  }
+
+  // The count is read and written with no await in between, so concurrent calls cannot pass maxCalls.
+  async consume(passId: string, maxCalls?: number): Promise<number | undefined> {
+    const used = this.calls.get(passId) ?? 0;
+    if (maxCalls !== undefined && used >= maxCalls) return undefined;
+    this.calls.set(passId, used + 1);
+    return used + 1;
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class SqlitePassStore implements PassStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pass_usage (
+        pass_id TEXT PRIMARY KEY,
+        calls INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  private read(passId: string): number {
+    const row = this.db.prepare("SELECT calls FROM pass_usage WHERE pass_id = ?").get(passId) as
+      | { calls: number }
+      | undefined;
+    return row?.calls ?? 0;
+  }
+
+  async usage(passId: string): Promise<number> {
+    return this.read(passId);
+  }
+
+  async consume(passId: string, maxCalls?: number): Promise<number | undefined> {
+    return this.db.transaction(() => {
+      const used = this.read(passId);
+      if (maxCalls !== undefined && used >= maxCalls) return undefined;
+      this.db
+        .prepare(
+          `INSERT INTO pass_usage (pass_id, calls, updated_at) VALUES (@passId, @calls, @updatedAt)
+           ON CONFLICT (pass_id) DO UPDATE SET calls = excluded.calls, updated_at = excluded.updated_at`,
+        )
+        .run({ passId, calls: used + 1, updatedAt: Date.now() });
+      return used + 1;
+    }).immediate();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// Issues and checks pass tokens: base64url JSON claims plus an HMAC-SHA256 over them, so the
+// service can trust the wallet, routes and expiry without a lookup. Only call counts are stored.
+export class AccessPasses {
+  constructor(
+    private readonly secret: string,
+    readonly store: PassStore,
+  ) {}
+
+  private mac(payload: string): Buffer {
+    return createHmac("sha256", this.secret).update(payload).digest();
+  }
+
+  issue(offer: PassOffer, wallet: string, now = Date.now()): { token: string; claims: PassClaims } {
+    const claims: PassClaims = {
+      id: randomBytes(16).toString("hex"),
+      offer: offer.id,
+      wallet: getAddress(wallet),
+      routes: offer.routes,
+      expiresAt: Math.floor(now / 1000) + offer.durationSeconds,
+      ...(offer.maxCalls !== undefined ? { maxCalls: offer.maxCalls } : {}),
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return { token: `ap_${payload}.${this.mac(payload).toString("base64url")}`, claims };
+  }
+
+  // Returns undefined for malformed or forged tokens; expiry and coverage are left to the caller.
+  verify(token: string): PassClaims | undefined {
+    const match = /^ap_([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/.exec(token);
+    if (!match?.[1] || !match[2]) return undefined;
+
+    const provided = Buffer.from(match[2], "base64url");
+    const expected = this.mac(match[1]);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return undefined;
+
+    try {
+      return JSON.parse(Buffer.from(match[1], "base64url").toString("utf8")) as PassClaims;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+export function createAccessPasses(config: AppConfig): AccessPasses {
+  const store = config.ledgerDriver === "memory" ? new MemoryPassStore() : new SqlitePassStore(config.ledgerPath);
+  return new AccessPasses(config.passSecret, store);
+}
+
+export function toPassUsage(claims: PassClaims, callsUsed: number): PassUsage {
+  return {
+    passId: claims.id,
+    offer: claims.offer,
+    expiresAt: new Date(claims.expiresAt * 1000).toISOString(),
+    callsUsed,
+    ...(claims.maxCalls !== undefined ? { callsRemaining: Math.max(0, claims.maxCalls - callsUsed) } : {}),
+  };
+}
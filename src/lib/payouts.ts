@@ -0,0 +1,257 @@
+import { randomBytes } from "node:crypto";
+
+import { authorizationTypes, eip3009ABI } from "@x402/evm";
+import type { FastifyBaseLogger } from "fastify";
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  getAddress,
+  http,
+  multicall3Abi,
+  parseSignature,
+  toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import type { AppConfig, NetworkConfig } from "../config.js";
+import type { Ledger, ShareKey } from "./ledger.js";
+import { getNetworkDefinition } from "./networks.js";
+import { baseUnitsToUsdc, usdcToBaseUnits } from "./pricing.js";
+
+export interface PayoutTransfer {
+  to: `0x${string}`;
+  amount: bigint;
+}
+
+// Every transfer owed on one network, sent together.
+export interface PayoutBatch {
+  network: string;
+  asset: `0x${string}`;
+  transfers: PayoutTransfer[];
+}
+
+// Sends a batch in one transaction and resolves with its tx hash once it is in a block; throws if it reverts.
+export type UsdcBatchTransfer = (batch: PayoutBatch) => Promise<string>;
+
+// The transaction was broadcast but not confirmed, so it may still land and must not be retried blindly.
+export class PayoutUnconfirmedError extends Error {
+  constructor(readonly txHash: string, cause: unknown) {
+    super(`Payout transaction ${txHash} was sent but not confirmed`, { cause });
+  }
+}
+
+const CONFIRMATION_TIMEOUT_MS = 120_000;
+// Signed authorizations only need to outlive the transaction that carries them.
+const AUTHORIZATION_TTL_SECONDS = 600;
+
+export interface PayoutResult {
+  network: string;
+  receiver: string;
+  amountUsdc: string;
+  shares: number;
+  txHash?: string;
+  error?: string;
+}
+
+interface PendingPayout {
+  network: NetworkConfig;
+  receiver: `0x${string}`;
+  amount: bigint;
+  shares: ShareKey[];
+}
+
+// Payouts are sent from the seller key's address, so it must be the receiver that settlements pay into.
+// The seller key signs one EIP-3009 transferWithAuthorization per partner, and a single Multicall3
+// aggregate3 call submits them all; if any transfer fails, the whole transaction reverts.
+export function createUsdcBatchTransfer(config: AppConfig): UsdcBatchTransfer {
+  if (!config.sellerPrivateKey) {
+    throw new Error("SELLER_PRIVATE_KEY is required to send partner payouts");
+  }
+  const account = privateKeyToAccount(config.sellerPrivateKey);
+  const clients = new Map(
+    config.acceptedNetworks.map((network) => {
+      if (getAddress(network.receiverAddress) !== account.address) {
+        throw new Error(`Payouts are sent from SELLER_PRIVATE_KEY, which does not control the ${network.name} receiver`);
+      }
+      const chain = getNetworkDefinition(network.chainId).chain;
+      const multicall3 = chain.contracts?.multicall3?.address;
+      if (!multicall3) {
+        throw new Error(`Payouts need Multicall3, which has no known address on ${network.name}`);
+      }
+      const transport = http(network.rpcUrl, { timeout: config.upstreamTimeoutMs });
+      return [
+        network.network as string,
+        {
+          network,
+          multicall3,
+          wallet: createWalletClient({ account, chain, transport }),
+          reader: createPublicClient({ chain, transport }),
+        },
+      ];
+    }),
+  );
+
+  return async (batch) => {
+    const client = clients.get(batch.network);
+    if (!client) throw new Error(`No payout client for ${batch.network}`);
+    const validBefore = BigInt(Math.floor(Date.now() / 1000) + AUTHORIZATION_TTL_SECONDS);
+    const calls = await Promise.all(
+      batch.transfers.map(async (transfer) => {
+        const nonce = toHex(randomBytes(32));
+        const authorization = { from: account.address, to: transfer.to, value: transfer.amount, validAfter: 0n, validBefore, nonce };
+        const { r, s, v, yParity } = parseSignature(
+          await account.signTypedData({
+            domain: {
+              name: client.network.usdcName,
+              version: client.network.usdcVersion,
+              chainId: client.network.chainId,
+              verifyingContract: batch.asset,
+            },
+            types: authorizationTypes,
+            primaryType: "TransferWithAuthorization",
+            message: authorization,
+          }),
+        );
+        return {
+          target: batch.asset,
+          allowFailure: false,
+          callData: encodeFunctionData({
+            abi: eip3009ABI,
+            functionName: "transferWithAuthorization",
+            args: [
+              authorization.from,
+              authorization.to,
+              authorization.value,
+              authorization.validAfter,
+              authorization.validBefore,
+              nonce,
+              Number(v ?? BigInt(yParity + 27)),
+              r,
+              s,
+            ],
+          }),
+        };
+      }),
+    );
+    const hash = await client.wallet.writeContract({
+      address: client.multicall3,
+      abi: multicall3Abi,
+      functionName: "aggregate3",
+      args: [calls],
+    });
+    const receipt = await client.reader
+      .waitForTransactionReceipt({ hash, timeout: CONFIRMATION_TIMEOUT_MS })
+      .catch((error: unknown) => {
+        throw new PayoutUnconfirmedError(hash, error);
+      });
+    if (receipt.status !== "success") throw new Error(`Payout transaction ${hash} reverted`);
+    return hash;
+  };
+}
+
+// Sweeps settled partner shares from the ledger. Each run owes one transfer per partner and network
+// covering every unpaid share, once the total reaches the minimum, and sends all of a network's transfers
+// in one batch transaction. Shares are marked "sending" before the batch goes out, so a crash or an
+// unconfirmed transaction leaves them for an operator instead of paying twice.
+export class PayoutJob {
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<PayoutResult[]> | undefined;
+
+  constructor(
+    private readonly ledger: Ledger,
+    private readonly transfer: UsdcBatchTransfer,
+    private readonly options: { networks: NetworkConfig[]; minUsdc: string; log: FastifyBaseLogger },
+  ) {}
+
+  private async pending(): Promise<PendingPayout[][]> {
+    const networks = new Map(this.options.networks.map((network) => [network.network as string, network]));
+    const payouts = new Map<string, PendingPayout>();
+    for (const share of await this.ledger.unpaidShares()) {
+      const network = networks.get(share.network);
+      if (!network) continue;
+      const receiver = getAddress(share.receiver);
+      const key = `${network.network} ${receiver}`;
+      const payout = payouts.get(key) ?? { network, receiver, amount: 0n, shares: [] };
+      payout.amount += BigInt(usdcToBaseUnits(share.amount));
+      payout.shares.push({ requestId: share.requestId, receiver: share.receiver });
+      payouts.set(key, payout);
+    }
+    const minimum = BigInt(usdcToBaseUnits(this.options.minUsdc));
+    const batches = new Map<string, PendingPayout[]>();
+    for (const payout of payouts.values()) {
+      if (payout.amount <= 0n || payout.amount < minimum) continue;
+      const batch = batches.get(payout.network.network) ?? [];
+      batch.push(payout);
+      batches.set(payout.network.network, batch);
+    }
+    return [...batches.values()];
+  }
+
+  private async pay(payouts: PendingPayout[]): Promise<PayoutResult[]> {
+    const network = payouts[0]!.network;
+    const shares = payouts.flatMap((payout) => payout.shares);
+    const results = payouts.map((payout) => ({
+      network: network.network,
+      receiver: payout.receiver,
+      amountUsdc: baseUnitsToUsdc(payout.amount.toString()),
+      shares: payout.shares.length,
+    }));
+    await this.ledger.setPayout(shares, "sending");
+    try {
+      const txHash = await this.transfer({
+        network: network.network,
+        asset: network.usdcContract,
+        transfers: payouts.map((payout) => ({ to: payout.receiver, amount: payout.amount })),
+      });
+      await this.ledger.setPayout(shares, txHash);
+      this.options.log.info({ network: network.network, tx_hash: txHash, payouts: results }, "payout_sent");
+      return results.map((result) => ({ ...result, txHash }));
+    } catch (error) {
+      // Unconfirmed batches stay "sending" for an operator to resolve; anything else is retried next run.
+      if (error instanceof PayoutUnconfirmedError) {
+        await this.ledger.setPayout(shares, `sending:${error.txHash}`);
+      } else {
+        await this.ledger.setPayout(shares, "");
+      }
+      this.options.log.error({ network: network.network, payouts: results, err: error }, "payout_failed");
+      const message = error instanceof Error ? error.message : "Unknown payout error";
+      return results.map((result) => ({ ...result, error: message }));
+    }
+  }
+
+  // Overlapping calls share one sweep.
+  run(): Promise<PayoutResult[]> {
+    this.running ??= (async () => {
+      const results: PayoutResult[] = [];
+      for (const batch of await this.pending()) {
+        results.push(...(await this.pay(batch)));
+      }
+      return results;
+    })().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  start(intervalMs: number): void {
+    this.timer = setInterval(() => {
+      this.run().catch((error) => this.options.log.error({ err: error }, "payout_sweep_failed"));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    await this.running?.catch(() => undefined);
+  }
+}
+
+export function createPayoutJob(
+  config: AppConfig,
+  ledger: Ledger,
+  log: FastifyBaseLogger,
+  transfer: UsdcBatchTransfer = createUsdcBatchTransfer(config),
+): PayoutJob {
+  return new PayoutJob(ledger, transfer, { networks: config.acceptedNetworks, minUsdc: config.payoutMinUsdc, log });
+}
@@ -0,0 +1,135 @@
+import type { AppConfig } from "../config.js";
+
+export const USDC_DECIMALS = 6;
+
+export interface RoutePrice {
+  priceUsdc: string;
+  priceBaseUnits: string;
+}
+
+type UsdcSource = string | ((config: AppConfig) => string);
+
+export interface UsagePrice<TBody = unknown> {
+  baseUsdc: UsdcSource;
+  perUnitUsdc: string;
+  unit: string;
+  countUnits(body: TBody): number;
+}
+
+export type PriceSpec<TBody = unknown> = UsdcSource | UsagePrice<TBody>;
+
+export interface PricedRoute {
+  method: string;
+  path: string;
+  price: PriceSpec;
+}
+
+export interface RoutePricing {
+  baseUsdc: string;
+  perUnitUsdc?: string;
+  unit?: string;
+  countUnits?(body: unknown): number;
+}
+
+export function usdcToBaseUnits(value: string): string {
+  const [wholeRaw, fractionRaw = ""] = value.split(".");
+  const whole = wholeRaw || "0";
+  const fraction = `${fractionRaw}000000`.slice(0, USDC_DECIMALS);
+  const normalized = `${whole}${fraction}`.replace(/^0+(?=\d)/, "");
+  return normalized || "0";
+}
+
+export function baseUnitsToUsdc(value: string): string {
+  const padded = value.replace(/^0+(?=\d)/, "").padStart(USDC_DECIMALS + 1, "0");
+  const whole = padded.slice(0, -USDC_DECIMALS);
+  const fraction = padded.slice(-USDC_DECIMALS).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+export function routeKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+export const RECEIPT_LOOKUP_PREFIX = "/v1/receipts/";
+
+// Everything under /v1 sits behind the payment gate except the free receipt lookups.
+export function isPaidPath(path: string): boolean {
+  return path.startsWith("/v1/") && !path.startsWith(RECEIPT_LOOKUP_PREFIX);
+}
+
+function toRoutePrice(baseUnits: bigint): RoutePrice {
+  return {
+    priceUsdc: baseUnitsToUsdc(baseUnits.toString()),
+    priceBaseUnits: baseUnits.toString(),
+  };
+}
+
+function resolveUsdc(source: UsdcSource, config: AppConfig): string {
+  return typeof source === "function" ? source(config) : source;
+}
+
+export class PricingRegistry {
+  private readonly pricing = new Map<string, RoutePricing>();
+
+  constructor(pricing: Record<string, RoutePricing>) {
+    for (const [key, entry] of Object.entries(pricing)) {
+      this.pricing.set(key, entry);
+    }
+  }
+
+  get(method: string, path: string): RoutePricing | undefined {
+    return this.pricing.get(routeKey(method, path));
+  }
+
+  require(method: string, path: string): RoutePricing {
+    const pricing = this.get(method, path);
+    if (!pricing) {
+      throw new Error(`No price entry for ${routeKey(method, path)}`);
+    }
+    return pricing;
+  }
+
+  // Quotes the exact amount for one request body. The same quote feeds the 402
+  // challenge, the dev bypass context and the receipt.
+  quote(method: string, path: string, body: unknown): RoutePrice {
+    const pricing = this.require(method, path);
+    const base = BigInt(usdcToBaseUnits(pricing.baseUsdc));
+    if (!pricing.perUnitUsdc || !pricing.countUnits) {
+      return toRoutePrice(base);
+    }
+
+    const units = BigInt(Math.max(0, Math.ceil(pricing.countUnits(body))));
+    return toRoutePrice(base + BigInt(usdcToBaseUnits(pricing.perUnitUsdc)) * units);
+  }
+
+  has(key: string): boolean {
+    return this.pricing.has(key);
+  }
+}
+
+// Catalog, x402 requirements, dev bypass context and receipts all read from the
+// registry built here, so every paid route is priced exactly once.
+export function createPricingRegistry(config: AppConfig, routes: PricedRoute[]): PricingRegistry {
+  const pricing: Record<string, RoutePricing> = {};
+  for (const route of routes) {
+    const key = routeKey(route.method, route.path);
+    if (typeof route.price === "object") {
+      pricing[key] = {
+        baseUsdc: resolveUsdc(route.price.baseUsdc, config),
+        perUnitUsdc: route.price.perUnitUsdc,
+        unit: route.price.unit,
+        countUnits: route.price.countUnits,
+      };
+    } else {
+      pricing[key] = { baseUsdc: resolveUsdc(route.price, config) };
+    }
+  }
+  return new PricingRegistry(pricing);
+}
+
+export function assertPaidRoutesPriced(routeKeys: Iterable<string>, registry: PricingRegistry): void {
+  const missing = [...routeKeys].filter((key) => !registry.has(key));
+  if (missing.length > 0) {
+    throw new Error(`Paid routes without a price entry: ${missing.join(", ")}`);
+  }
+}
@@ -0,0 +1,86 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+import type { AppConfig } from "../config.js";
+import { AppError } from "./errors.js";
+import { hashBody } from "./idempotencyStore.js";
+import { routeKey, type PricingRegistry, type RoutePrice } from "./pricing.js";
+
+export const QUOTE_HEADER = "x-quote-id";
+
+export interface QuoteClaims extends RoutePrice {
+  id: string;
+  // Route key ("POST /v1/dns") and canonical hash of the validated body the price was computed for.
+  route: string;
+  bodyHash: string;
+  expiresAt: number;
+}
+
+// Issues and checks quote ids: base64url JSON claims plus an HMAC-SHA256 over them, like access passes.
+// A quote locks the price of one route and body until it expires; nothing is stored.
+export class PriceQuotes {
+  constructor(
+    private readonly secret: string,
+    private readonly pricing: PricingRegistry,
+    readonly ttlSeconds: number,
+  ) {}
+
+  private mac(payload: string): Buffer {
+    return createHmac("sha256", this.secret).update(`quote\n${payload}`).digest();
+  }
+
+  private decode(quoteId: string): QuoteClaims | undefined {
+    const match = /^q_([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/.exec(quoteId);
+    if (!match?.[1] || !match[2]) return undefined;
+
+    const provided = Buffer.from(match[2], "base64url");
+    const expected = this.mac(match[1]);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return undefined;
+
+    try {
+      return JSON.parse(Buffer.from(match[1], "base64url").toString("utf8")) as QuoteClaims;
+    } catch {
+      return undefined;
+    }
+  }
+
+  issue(method: string, path: string, body: unknown, now = Date.now()): { quoteId: string; claims: QuoteClaims } {
+    const claims: QuoteClaims = {
+      id: randomBytes(16).toString("hex"),
+      route: routeKey(method, path),
+      bodyHash: hashBody(body),
+      ...this.pricing.quote(method, path, body),
+      expiresAt: Math.floor(now / 1000) + this.ttlSeconds,
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return { quoteId: `q_${payload}.${this.mac(payload).toString("base64url")}`, claims };
+  }
+
+  // Claims of a genuine quote for this route and body, expired or not.
+  read(quoteId: string, method: string, path: string, body: unknown): QuoteClaims | undefined {
+    const claims = this.decode(quoteId);
+    if (!claims || claims.route !== routeKey(method, path) || claims.bodyHash !== hashBody(body)) return undefined;
+    return claims;
+  }
+
+  redeem(quoteId: string, method: string, path: string, body: unknown, now = Date.now()): QuoteClaims {
+    const claims = this.decode(quoteId);
+    if (!claims) {
+      throw new AppError(400, "QUOTE_INVALID", "Quote id is malformed or was not issued by this service");
+    }
+    const key = routeKey(method, path);
+    if (claims.route !== key) {
+      throw new AppError(400, "QUOTE_INVALID", `Quote is for ${claims.route}, not ${key}`);
+    }
+    if (claims.bodyHash !== hashBody(body)) {
+      throw new AppError(400, "QUOTE_INVALID", "Quote was issued for a different request body");
+    }
+    if (claims.expiresAt * 1000 <= now) {
+      throw new AppError(402, "QUOTE_EXPIRED", `Quote expired at ${new Date(claims.expiresAt * 1000).toISOString()}`);
+    }
+    return claims;
+  }
+}
+
+export function createPriceQuotes(config: AppConfig, pricing: PricingRegistry): PriceQuotes {
+  return new PriceQuotes(config.passSecret, pricing, config.quoteTtlSeconds);
+}
@@ -0,0 +1,164 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { isAddress, verifyTypedData, type Hex } from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+
+import type { AppConfig } from "../config.js";
+import { hashBody } from "./idempotencyStore.js";
+
+export const RECEIPT_TYPES = {
+  Receipt: [
+    { name: "requestId", type: "string" },
+    { name: "route", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "network", type: "string" },
+    { name: "asset", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "receiver", type: "address" },
+    { name: "payer", type: "string" },
+    { name: "txHash", type: "string" },
+    { name: "idempotencyKey", type: "string" },
+    { name: "dataHash", type: "bytes32" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+export interface ReceiptDomain {
+  name: string;
+  version: string;
+  chainId: number;
+}
+
+// The receipt fields a proof covers, as they appear in the response.
+export interface SignableReceipt {
+  chainId: number;
+  network: string;
+  asset: string;
+  amount: string;
+  receiver: string;
+  txHash: string;
+  payer: string;
+  idempotencyKey: string;
+}
+
+export interface ReceiptProof {
+  scheme: "eip712";
+  signer: string;
+  requestId: string;
+  route: string;
+  // sha256 of the response's `data` object as canonical JSON (sorted keys).
+  dataHash: string;
+  issuedAt: number;
+  signature: string;
+}
+
+// The ledger fields a receipt status token is bound to; route is the path, as the ledger records it.
+export interface ReceiptStatusSubject {
+  requestId: string;
+  route: string;
+  payer: string;
+}
+
+export interface ReceiptVerification {
+  valid: boolean;
+  signer: string;
+  reason?: string;
+}
+
+export function hashReceiptData(data: unknown): Hex {
+  return `0x${hashBody(data)}`;
+}
+
+function toMessage(receipt: SignableReceipt, proof: Omit<ReceiptProof, "scheme" | "signer" | "signature">) {
+  return {
+    requestId: proof.requestId,
+    route: proof.route,
+    chainId: BigInt(receipt.chainId),
+    network: receipt.network,
+    asset: receipt.asset as Hex,
+    amount: receipt.amount,
+    receiver: receipt.receiver as Hex,
+    payer: receipt.payer,
+    txHash: receipt.txHash,
+    idempotencyKey: receipt.idempotencyKey,
+    dataHash: proof.dataHash as Hex,
+    issuedAt: BigInt(proof.issuedAt),
+  };
+}
+
+export class ReceiptSigner {
+  private readonly account: PrivateKeyAccount;
+
+  constructor(
+    private readonly privateKey: Hex,
+    readonly domain: ReceiptDomain,
+  ) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  get address(): string {
+    return this.account.address;
+  }
+
+  async sign(receipt: SignableReceipt, requestId: string, route: string, data: unknown): Promise<ReceiptProof> {
+    const unsigned = { requestId, route, dataHash: hashReceiptData(data), issuedAt: Math.floor(Date.now() / 1000) };
+    const signature = await this.account.signTypedData({
+      domain: this.domain,
+      types: RECEIPT_TYPES,
+      primaryType: "Receipt",
+      message: toMessage(receipt, unsigned),
+    });
+    return { scheme: "eip712", signer: this.account.address, ...unsigned, signature };
+  }
+
+  // Opaque bearer token for GET /v1/receipts/:requestId, derived from the receipt key so none are stored;
+  // production requires a fixed key, so tokens hold across replicas and restarts. It covers the route
+  // and payer as well as the request id, and is checked against the ledger row.
+  statusToken(subject: ReceiptStatusSubject): string {
+    return createHmac("sha256", this.privateKey)
+      .update(`receipt-status\n${subject.requestId}\n${subject.route}\n${subject.payer.toLowerCase()}`)
+      .digest("base64url");
+  }
+
+  checkStatusToken(subject: ReceiptStatusSubject, token: string): boolean {
+    const provided = Buffer.from(token);
+    const expected = Buffer.from(this.statusToken(subject));
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  // Checks that this service signed the receipt and, when `data` is given, that it is the data the receipt was issued for.
+  async verify(receipt: SignableReceipt & { proof?: ReceiptProof }, data?: unknown): Promise<ReceiptVerification> {
+    const signer = this.account.address;
+    const { proof } = receipt;
+    if (!proof || proof.scheme !== "eip712") {
+      return { valid: false, signer, reason: "Receipt has no EIP-712 proof" };
+    }
+    if (proof.signer.toLowerCase() !== signer.toLowerCase()) {
+      return { valid: false, signer, reason: "Receipt was signed by a different key" };
+    }
+    if (!isAddress(receipt.asset) || !isAddress(receipt.receiver) || !/^0x[0-9a-f]{64}$/i.test(proof.dataHash)) {
+      return { valid: false, signer, reason: "Receipt fields are malformed" };
+    }
+    if (data !== undefined && hashReceiptData(data) !== proof.dataHash.toLowerCase()) {
+      return { valid: false, signer, reason: "Data does not match the receipt's dataHash" };
+    }
+
+    const valid = await verifyTypedData({
+      address: signer,
+      domain: this.domain,
+      types: RECEIPT_TYPES,
+      primaryType: "Receipt",
+      message: toMessage(receipt, proof),
+      signature: proof.signature as Hex,
+    }).catch(() => false);
+    return valid ? { valid, signer } : { valid, signer, reason: "Signature does not match the receipt" };
+  }
+}
+
+export function createReceiptSigner(config: AppConfig): ReceiptSigner {
+  return new ReceiptSigner(config.receiptPrivateKey, {
+    name: config.serviceName,
+    version: "1",
+    chainId: config.network.chainId,
+  });
+}
@@ -0,0 +1,46 @@
+import { baseUnitsToUsdc, usdcToBaseUnits, type PricingRegistry } from "./pricing.js";
+
+// One partner's cut of a route's revenue, from REVENUE_SPLITS.
+export interface RevenueSplit {
+  address: `0x${string}`;
+  percent: number;
+}
+
+// How one payment divides between receivers; the primary receiver comes first and keeps the remainder.
+export interface RevenueShare {
+  receiver: string;
+  percent: number;
+  amount: string;
+}
+
+const BASIS_POINTS = 10_000n;
+
+function toBasisPoints(percent: number): bigint {
+  return BigInt(Math.round(percent * 100));
+}
+
+// Shares round down to whole base units, so rounding dust always stays with the primary receiver.
+export function splitRevenue(splits: RevenueSplit[] | undefined, amountUsdc: string, primaryReceiver: string): RevenueShare[] {
+  const amount = BigInt(usdcToBaseUnits(amountUsdc || "0"));
+  if (!splits?.length || amount === 0n) return [];
+
+  const partners = splits.map((split) => ({
+    receiver: split.address,
+    percent: split.percent,
+    amount: (amount * toBasisPoints(split.percent)) / BASIS_POINTS,
+  }));
+  const remainder = partners.reduce((left, share) => left - share.amount, amount);
+  const partnerPercent = partners.reduce((total, share) => total + toBasisPoints(share.percent), 0n);
+
+  return [
+    { receiver: primaryReceiver, percent: Number(BASIS_POINTS - partnerPercent) / 100, amount: remainder },
+    ...partners,
+  ].map((share) => ({ ...share, amount: baseUnitsToUsdc(share.amount.toString()) }));
+}
+
+export function assertRevenueSplitRoutesPriced(splits: Record<string, RevenueSplit[]>, registry: PricingRegistry): void {
+  const unknown = Object.keys(splits).filter((key) => !registry.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`REVENUE_SPLITS names routes that are not paid: ${unknown.join(", ")}`);
+  }
+}
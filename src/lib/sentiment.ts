@@ -1,8 +1,6 @@
 import { AppError } from "./errors.js";
 
 export const MAX_SENTIMENT_TEXT_BYTES = 10 * 1024;
-export const SENTIMENT_ROUTE_PRICE_USDC = "0.002";
-export const SENTIMENT_ROUTE_PRICE_BASE_UNITS = "2000";
 
 const NEGATORS = new Set(["not", "never", "no", "hardly", "barely", "without", "isn't", "wasn't", "don't", "didn't"]);
 const INTENSIFIERS = new Map<string, number>([
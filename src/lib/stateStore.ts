@@ -0,0 +1,260 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import Database from "better-sqlite3";
+import { Redis } from "ioredis";
+import { LRUCache } from "lru-cache";
+
+import type { AppConfig } from "../config.js";
+
+// Short-lived key/value state (idempotency entries, rate-limit counters) that can outlive a process
+// and be shared between instances. Values must be JSON-serializable.
+export interface StateStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  // Returns false, leaving the stored value alone, when the key already exists.
+  setIfAbsent(key: string, value: unknown, ttlMs: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Adds `by` (default 1) to a counter and returns the new count. The TTL starts when the counter is created.
+  increment(key: string, ttlMs: number, by?: number): Promise<number>;
+}
+
+export interface StateStores {
+  idempotency: StateStore;
+  rateLimit: StateStore;
+  // Daily spend counters are never evicted early, so a full store cannot reset a payer's spend cap.
+  spend: StateStore;
+  close(): Promise<void>;
+}
+
+const UNBOUNDED_DEFAULT_TTL_MS = 60_000;
+
+export class MemoryStateStore implements StateStore {
+  private readonly cache: LRUCache<string, string>;
+
+  // Without maxEntries nothing is evicted; entries are purged when their TTL passes.
+  constructor(maxEntries?: number) {
+    // TTLs run on Date.now(), the same clock the sqlite and redis stores expire against. Every write
+    // passes its own TTL, so the default only satisfies lru-cache's rule that a cache has some bound.
+    this.cache = new LRUCache<string, string>(
+      maxEntries === undefined ? { ttl: UNBOUNDED_DEFAULT_TTL_MS, ttlAutopurge: true, perf: Date } : { max: maxEntries, perf: Date },
+    );
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = this.cache.get(key);
+    return raw === undefined ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.cache.set(key, JSON.stringify(value), { ttl: ttlMs });
+  }
+
+  async setIfAbsent(key: string, value: unknown, ttlMs: number): Promise<boolean> {
+    if (this.cache.has(key)) return false;
+    this.cache.set(key, JSON.stringify(value), { ttl: ttlMs });
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+  }
+
+  async increment(key: string, ttlMs: number, by = 1): Promise<number> {
+    const raw = this.cache.get(key);
+    if (raw === undefined) {
+      this.cache.set(key, String(by), { ttl: ttlMs });
+      return by;
+    }
+    const next = Number(raw) + by;
+    this.cache.set(key, String(next), { noUpdateTTL: true });
+    return next;
+  }
+}
+
+// Expired rows are swept, and the namespace trimmed to maxEntries when set, every PRUNE_INTERVAL writes.
+const PRUNE_INTERVAL = 100;
+
+export class SqliteStateStore implements StateStore {
+  private writes = 0;
+
+  constructor(
+    private readonly db: Database.Database,
+    private readonly namespace: string,
+    private readonly maxEntries?: number,
+  ) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS state_entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+      CREATE INDEX IF NOT EXISTS state_entries_expires_at ON state_entries (namespace, expires_at);
+    `);
+  }
+
+  private read(key: string, now: number): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM state_entries WHERE namespace = ? AND key = ? AND expires_at > ?")
+      .get(this.namespace, key, now) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private write(key: string, value: string, expiresAt: number): void {
+    this.db
+      .prepare(
+        `INSERT INTO state_entries (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`,
+      )
+      .run(this.namespace, key, value, expiresAt);
+    this.writes += 1;
+    if (this.writes % PRUNE_INTERVAL === 0) {
+      this.prune(Date.now());
+    }
+  }
+
+  private prune(now: number): void {
+    this.db.prepare("DELETE FROM state_entries WHERE namespace = ? AND expires_at <= ?").run(this.namespace, now);
+    const { count } = this.db
+      .prepare("SELECT COUNT(*) AS count FROM state_entries WHERE namespace = ?")
+      .get(this.namespace) as { count: number };
+    if (this.maxEntries === undefined || count <= this.maxEntries) return;
+    this.db
+      .prepare(
+        `DELETE FROM state_entries WHERE namespace = ? AND key IN (
+           SELECT key FROM state_entries WHERE namespace = ? ORDER BY expires_at ASC LIMIT ?
+         )`,
+      )
+      .run(this.namespace, this.namespace, count - this.maxEntries);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = this.read(key, Date.now());
+    return raw === undefined ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.write(key, JSON.stringify(value), now + ttlMs);
+  }
+
+  async setIfAbsent(key: string, value: unknown, ttlMs: number): Promise<boolean> {
+    return this.db
+      .transaction(() => {
+        const now = Date.now();
+        if (this.read(key, now) !== undefined) return false;
+        this.write(key, JSON.stringify(value), now + ttlMs);
+        return true;
+      })
+      .immediate();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM state_entries WHERE namespace = ? AND key = ?").run(this.namespace, key);
+  }
+
+  async increment(key: string, ttlMs: number, by = 1): Promise<number> {
+    return this.db
+      .transaction(() => {
+        const now = Date.now();
+        const raw = this.read(key, now);
+        if (raw === undefined) {
+          this.write(key, String(by), now + ttlMs);
+          return by;
+        }
+        const next = Number(raw) + by;
+        this.db
+          .prepare("UPDATE state_entries SET value = ? WHERE namespace = ? AND key = ?")
+          .run(String(next), this.namespace, key);
+        return next;
+      })
+      .immediate();
+  }
+}
+
+const INCREMENT_SCRIPT = `
+local count = redis.call("INCRBY", KEYS[1], ARGV[2])
+if redis.call("PTTL", KEYS[1]) == -1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+end
+return count
+`;
+
+// Capacity is left to the Redis server's maxmemory policy; every key carries a TTL.
+export class RedisStateStore implements StateStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix: string,
+  ) {}
+
+  private key(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(this.key(key));
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    await this.client.set(this.key(key), JSON.stringify(value), "PX", ttlMs);
+  }
+
+  async setIfAbsent(key: string, value: unknown, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.key(key), JSON.stringify(value), "PX", ttlMs, "NX");
+    return result === "OK";
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.key(key));
+  }
+
+  async increment(key: string, ttlMs: number, by = 1): Promise<number> {
+    return Number(await this.client.eval(INCREMENT_SCRIPT, 1, this.key(key), ttlMs, by));
+  }
+}
+
+function openStateDatabase(path: string): Database.Database {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
+
+// A Redis client may be passed in to share a connection, or to use a stand-in in tests.
+export function createStateStores(config: AppConfig, redis?: Redis): StateStores {
+  if (config.stateDriver === "redis") {
+    const client = redis ?? new Redis(config.redisUrl);
+    return {
+      idempotency: new RedisStateStore(client, `${config.serviceName}:idempotency`),
+      rateLimit: new RedisStateStore(client, `${config.serviceName}:ratelimit`),
+      spend: new RedisStateStore(client, `${config.serviceName}:spend`),
+      close: async () => {
+        if (!redis) await client.quit();
+      },
+    };
+  }
+
+  if (config.stateDriver === "sqlite") {
+    const db = openStateDatabase(config.statePath);
+    return {
+      idempotency: new SqliteStateStore(db, "idempotency", config.idempotencyMaxEntries),
+      rateLimit: new SqliteStateStore(db, "ratelimit", config.rateLimitMaxKeys),
+      spend: new SqliteStateStore(db, "spend"),
+      close: async () => {
+        db.close();
+      },
+    };
+  }
+
+  return {
+    idempotency: new MemoryStateStore(config.idempotencyMaxEntries),
+    rateLimit: new MemoryStateStore(config.rateLimitMaxKeys),
+    spend: new MemoryStateStore(),
+    close: async () => {},
+  };
+}
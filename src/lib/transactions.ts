@@ -0,0 +1,37 @@
+import { createPublicClient, http, TransactionReceiptNotFoundError, type Hex } from "viem";
+
+import type { AppConfig } from "../config.js";
+import { getNetworkDefinition, type CaipNetwork } from "./networks.js";
+
+export interface TransactionStatus {
+  status: "success" | "reverted";
+  blockNumber: bigint;
+}
+
+// Resolves a settlement transaction on one of the accepted networks. Undefined means it is not in a
+// block yet, or the network is not one this service accepts.
+export type TransactionLookup = (network: string, txHash: string) => Promise<TransactionStatus | undefined>;
+
+export function createTransactionLookup(config: AppConfig): TransactionLookup {
+  const clients = new Map(
+    config.acceptedNetworks.map((network) => [
+      network.network,
+      createPublicClient({
+        chain: getNetworkDefinition(network.chainId).chain,
+        transport: http(network.rpcUrl, { timeout: config.upstreamTimeoutMs }),
+      }),
+    ]),
+  );
+
+  return async (network, txHash) => {
+    const client = clients.get(network as CaipNetwork);
+    if (!client || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) return undefined;
+    try {
+      const receipt = await client.getTransactionReceipt({ hash: txHash as Hex });
+      return { status: receipt.status, blockNumber: receipt.blockNumber };
+    } catch (error) {
+      if (error instanceof TransactionReceiptNotFoundError) return undefined;
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,146 @@
+import { readFileSync, unwatchFile, watchFile, type Stats } from "node:fs";
+
+import type { FastifyBaseLogger } from "fastify";
+import { isAddress } from "viem";
+
+import type { AppConfig } from "../config.js";
+
+// Shape of the WALLET_POLICY_PATH file. "deny" is for abusive payers, "screened" for addresses
+// flagged by compliance screening; both are refused everywhere. Routes in "allowlistRoutes" only
+// serve wallets in "allow".
+export interface WalletPolicyFile {
+  deny?: string[];
+  screened?: string[];
+  allow?: string[];
+  allowlistRoutes?: string[];
+}
+
+export type WalletRejectionReason = "denied" | "screened" | "not_allowlisted";
+
+export interface WalletRejection {
+  reason: WalletRejectionReason;
+  message: string;
+}
+
+export interface WalletPolicySummary {
+  deny: number;
+  screened: number;
+  allow: number;
+  allowlistRoutes: string[];
+  loadedAt: string;
+}
+
+interface PolicyLists {
+  deny: Set<string>;
+  screened: Set<string>;
+  allow: Set<string>;
+  allowlistRoutes: Set<string>;
+  loadedAt: Date;
+}
+
+const WATCH_INTERVAL_MS = 5_000;
+
+function readAddresses(value: unknown, field: string): Set<string> {
+  if (value === undefined) return new Set();
+  if (!Array.isArray(value)) {
+    throw new Error(`Wallet policy "${field}" must be an array of addresses`);
+  }
+  return new Set(
+    value.map((entry) => {
+      if (typeof entry !== "string" || !isAddress(entry, { strict: false })) {
+        throw new Error(`Invalid address in wallet policy "${field}": ${String(entry)}`);
+      }
+      return entry.toLowerCase();
+    }),
+  );
+}
+
+function readRoutes(value: unknown): Set<string> {
+  if (value === undefined) return new Set();
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string" || !/^[A-Z]+ \/\S*$/.test(entry))) {
+    throw new Error('Wallet policy "allowlistRoutes" must be route keys such as "POST /v1/extract"');
+  }
+  return new Set(value as string[]);
+}
+
+function loadPolicy(path: string): PolicyLists {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read wallet policy ${path}: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Wallet policy ${path} must be a JSON object`);
+  }
+
+  const file = parsed as Record<string, unknown>;
+  return {
+    deny: readAddresses(file.deny, "deny"),
+    screened: readAddresses(file.screened, "screened"),
+    allow: readAddresses(file.allow, "allow"),
+    allowlistRoutes: readRoutes(file.allowlistRoutes),
+    loadedAt: new Date(),
+  };
+}
+
+// Loaded once at startup, where a bad file is fatal, then reloaded whenever the file changes. A reload
+// that fails keeps the previous lists in force.
+export class WalletPolicy {
+  private lists: PolicyLists;
+  private readonly onChange = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    try {
+      const summary = this.reload();
+      this.log?.info({ path: this.path, ...summary }, "wallet_policy_reloaded");
+    } catch (error) {
+      this.log?.error({ err: error, path: this.path }, "wallet_policy_reload_failed");
+    }
+  };
+
+  constructor(
+    private readonly path: string,
+    private readonly log?: FastifyBaseLogger,
+  ) {
+    this.lists = loadPolicy(path);
+    watchFile(path, { interval: WATCH_INTERVAL_MS, persistent: false }, this.onChange);
+  }
+
+  reload(): WalletPolicySummary {
+    this.lists = loadPolicy(this.path);
+    return this.summary();
+  }
+
+  summary(): WalletPolicySummary {
+    return {
+      deny: this.lists.deny.size,
+      screened: this.lists.screened.size,
+      allow: this.lists.allow.size,
+      allowlistRoutes: [...this.lists.allowlistRoutes],
+      loadedAt: this.lists.loadedAt.toISOString(),
+    };
+  }
+
+  // The same message covers denied and screened payers, so the response does not reveal which list matched.
+  check(wallet: string | undefined, route: string): WalletRejection | undefined {
+    const address = wallet?.toLowerCase() ?? "";
+    if (this.lists.deny.has(address)) {
+      return { reason: "denied", message: "Payer wallet is not accepted by this service" };
+    }
+    if (this.lists.screened.has(address)) {
+      return { reason: "screened", message: "Payer wallet is not accepted by this service" };
+    }
+    if (this.lists.allowlistRoutes.has(route) && !this.lists.allow.has(address)) {
+      return { reason: "not_allowlisted", message: `${route} is restricted to allowlisted wallets` };
+    }
+    return undefined;
+  }
+
+  close(): void {
+    unwatchFile(this.path, this.onChange);
+  }
+}
+
+export function createWalletPolicy(config: AppConfig, log?: FastifyBaseLogger): WalletPolicy | undefined {
+  return config.walletPolicyPath ? new WalletPolicy(config.walletPolicyPath, log) : undefined;
+}
@@ -1,8 +1,9 @@
-import type { FastifyServerOptions } from "fastify";
+import type { LoggerOptions } from "pino";
 
 import type { AppConfig } from "./config.js";
 
-export function buildLoggerOptions(config: AppConfig): FastifyServerOptions["logger"] {
+// Shared by the Fastify logger and the standalone scripts.
+export function buildLoggerOptions(config: AppConfig): LoggerOptions {
   return {
     level: config.logLevel,
     base: {
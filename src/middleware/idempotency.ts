@@ -1,8 +1,76 @@
-import type { preHandlerHookHandler } from "fastify";
+import type { FastifyInstance, FastifyReply, FastifyRequest, preHandlerHookHandler } from "fastify";
 
-import { IdempotencyStore } from "../lib/idempotencyStore.js";
+import {
+  hashBody,
+  IdempotencyStore,
+  sha256,
+  type IdempotencyEntry,
+  type IdempotencyScope,
+  type StoredResponse,
+} from "../lib/idempotencyStore.js";
 import { sendError } from "../lib/errors.js";
+import type { WalletPolicy } from "../lib/walletPolicy.js";
+import { applyRawPaymentContext } from "./requestContext.js";
+import { peekPaymentPayer, readPaymentHeader } from "./requirePayment.js";
+import { rejectWallet } from "./walletScreening.js";
 
+export const IDEMPOTENT_REPLAY_HEADER = "idempotent-replayed";
+
+const reservations = new WeakMap<FastifyRequest, IdempotencyScope>();
+// Hash of the body as the client sent it. Schema validation fills defaults, strips and coerces fields
+// in place, so the replay hook and the stored entry would otherwise hash different bodies.
+const receivedBodies = new WeakMap<FastifyRequest, string>();
+
+function bodyHashOf(request: FastifyRequest): string {
+  return receivedBodies.get(request) ?? hashBody(request.body);
+}
+
+// Headers describing one transmission of the body rather than the response itself.
+const TRANSPORT_HEADERS = new Set([
+  "connection",
+  "content-encoding",
+  "content-length",
+  "date",
+  "etag",
+  "keep-alive",
+  "ratelimit-limit",
+  "ratelimit-policy",
+  "ratelimit-remaining",
+  "ratelimit-reset",
+  "transfer-encoding",
+  "vary",
+  "x-request-id",
+]);
+
+function storedHeaders(reply: FastifyReply): StoredResponse["headers"] {
+  const headers: StoredResponse["headers"] = {};
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined && !TRANSPORT_HEADERS.has(name.toLowerCase())) {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+function routeOf(request: FastifyRequest): string {
+  return `${request.method} ${request.routeOptions.url ?? request.url}`;
+}
+
+function replayEntry(request: FastifyRequest, reply: FastifyReply, entry: IdempotencyEntry) {
+  if (entry.bodyHash !== bodyHashOf(request)) {
+    return sendError(reply, 422, "IDEMPOTENCY_MISMATCH", "Idempotency-Key was already used with a different request body");
+  }
+
+  request.requestContext.replayed = true;
+  reply.code(entry.response.statusCode);
+  reply.headers(entry.response.headers);
+  reply.header(IDEMPOTENT_REPLAY_HEADER, "true");
+  return reply.send(entry.response.body);
+}
+
+// Runs after the payment gate, so the payer is verified: any valid payment, credit token or pass from
+// the same wallet collects the stored response, and the new payment is left unsettled. Otherwise the
+// key is reserved until the response is sent, and concurrent duplicates are turned away uncharged.
 export function createIdempotencyPreHandler(store: IdempotencyStore): preHandlerHookHandler {
   return async (request, reply) => {
     const key = request.headers["idempotency-key"];
@@ -12,11 +80,76 @@ export function createIdempotencyPreHandler(store: IdempotencyStore): preHandler
       return;
     }
 
+    applyRawPaymentContext(request);
     request.requestContext.idempotencyKey = key;
 
-    if (store.has(key)) {
-      sendError(reply, 409, "IDEMPOTENCY_REPLAY", "Idempotency key replay detected");
-      return;
+    const scope = { payer: request.requestContext.wallet ?? "", route: routeOf(request), key };
+    const entry = await store.get(scope);
+    if (entry) {
+      request.requestContext.settlement = "not_charged";
+      return replayEntry(request, reply, entry);
     }
+
+    if (!(await store.reserve(scope))) {
+      request.requestContext.settlement = "not_charged";
+      reply.header("retry-after", "1");
+      return sendError(reply, 409, "IDEMPOTENCY_IN_PROGRESS", "A request with this Idempotency-Key is still in progress");
+    }
+    reservations.set(request, scope);
   };
 }
+
+// Successful paid responses are stored under payer, route and Idempotency-Key and returned verbatim to
+// retries. A retry that resends the exact x402 payment header is answered in preValidation, ahead of
+// the payment gate, because that payment has already been settled and would no longer verify. Those
+// replays are screened against the wallet policy here, as the screening hook has not run yet.
+export function registerIdempotencyReplay(app: FastifyInstance, store: IdempotencyStore, walletPolicy?: WalletPolicy): void {
+  const bodies = new WeakMap<FastifyRequest, unknown>();
+
+  app.addHook("preValidation", async (request, reply) => {
+    if (!request.url.startsWith("/v1/")) return;
+    receivedBodies.set(request, hashBody(request.body));
+    const key = request.headers["idempotency-key"];
+    const paymentHeader = readPaymentHeader(request.raw);
+    if (typeof key !== "string" || !paymentHeader) return;
+
+    const payer = peekPaymentPayer(paymentHeader);
+    const entry = payer ? await store.get({ payer, route: routeOf(request), key }) : undefined;
+    if (!entry || entry.credentialHash !== sha256(paymentHeader)) return;
+
+    request.requestContext.idempotencyKey = key;
+    if (walletPolicy && rejectWallet(walletPolicy, request, reply, payer)) return reply;
+    return replayEntry(request, reply, entry);
+  });
+
+  app.addHook("preSerialization", async (request, _reply, payload) => {
+    if (request.url.startsWith("/v1/") && !request.requestContext.replayed) {
+      bodies.set(request, payload);
+    }
+    return payload;
+  });
+
+  app.addHook("onResponse", async (request, reply) => {
+    const context = request.requestContext;
+    const reserved = reservations.get(request);
+    if (reserved) {
+      await store.release(reserved);
+    }
+    if (context.replayed || reply.statusCode >= 400 || !context.paid || !context.idempotencyKey) return;
+    if (!bodies.has(request)) return;
+
+    const paymentHeader = readPaymentHeader(request.raw);
+    await store.markSeen({
+      payer: context.wallet ?? "",
+      route: routeOf(request),
+      key: context.idempotencyKey,
+      bodyHash: bodyHashOf(request),
+      ...(paymentHeader ? { credentialHash: sha256(paymentHeader) } : {}),
+      response: {
+        statusCode: reply.statusCode,
+        headers: storedHeaders(reply),
+        body: bodies.get(request),
+      },
+    });
+  });
+}
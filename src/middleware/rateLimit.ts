@@ -1,41 +1,137 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 
-import type { FastifyReply, FastifyRequest, onRequestHookHandler } from "fastify";
+import type { FastifyReply, FastifyRequest, onRequestHookHandler, preHandlerAsyncHookHandler } from "fastify";
 
-import { adaptExpressLikeResponse, getIp } from "../lib/expressCompat.js";
+import type { AppConfig } from "../config.js";
+import { resolveClientIp, type TrustFunction } from "../lib/clientIp.js";
+import { adaptExpressLikeResponse } from "../lib/expressCompat.js";
 import { errorPayload } from "../lib/errors.js";
+import { baseUnitsToUsdc, isPaidPath, routeKey, usdcToBaseUnits } from "../lib/pricing.js";
+import type { StateStore } from "../lib/stateStore.js";
+import { applyRawPaymentContext } from "./requestContext.js";
 
-interface CounterValue {
-  windowStart: number;
-  count: number;
+const WINDOW_MS = 60_000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window ends.
+  resetSeconds: number;
+  // Seconds until one more request would be allowed; 0 while requests are allowed.
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  appliesTo: string;
+  // "wallet_or_ip" keys on the verified payer, falling back to the client IP for dev bypass calls.
+  key: "ip" | "wallet" | "wallet_or_ip";
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitOptions {
+  globalPerMinute: number;
+  unpaidPerMinute: number;
+  walletPerMinute: number;
+  // Route key ("POST /v1/dns") to calls per minute for each caller.
+  routeLimits: Map<string, number>;
+  dailySpendCapUsdc?: string;
+  // The function Fastify was built with, so raw middleware resolves the same IP as request.ip.
+  trustProxy: TrustFunction;
 }
 
-class FixedWindowLimiter {
-  private readonly counters = new Map<string, CounterValue>();
+// Sliding-window counter: the previous window's count is weighted by how much of it still overlaps
+// the trailing minute, so a client cannot spend two full windows back to back across a boundary.
+// Counters expire after two windows, which keeps idle keys from piling up in the state store.
+class SlidingWindowLimiter {
+  constructor(
+    private readonly store: StateStore,
+    private readonly name: string,
+  ) {}
 
-  consume(key: string, maxPerMinute: number): boolean {
+  async consume(key: string, limit: number): Promise<RateLimitResult> {
     const now = Date.now();
-    const windowStart = Math.floor(now / 60_000) * 60_000;
-    const existing = this.counters.get(key);
-
-    if (!existing || existing.windowStart !== windowStart) {
-      this.counters.set(key, {
-        windowStart,
-        count: 1,
-      });
-      return true;
-    }
-
-    if (existing.count >= maxPerMinute) {
-      return false;
-    }
-
-    existing.count += 1;
-    this.counters.set(key, existing);
-    return true;
+    const windowStart = Math.floor(now / WINDOW_MS) * WINDOW_MS;
+    const elapsed = now - windowStart;
+    const [current, previous] = await Promise.all([
+      this.store.increment(`${this.name}\n${key}\n${windowStart}`, 2 * WINDOW_MS),
+      this.store.get<number>(`${this.name}\n${key}\n${windowStart - WINDOW_MS}`),
+    ]);
+
+    const weighted = ((previous ?? 0) * (WINDOW_MS - elapsed)) / WINDOW_MS + current;
+    const allowed = weighted <= limit;
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - weighted)),
+      resetSeconds: Math.ceil((WINDOW_MS - elapsed) / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil(retryAfterMs(previous ?? 0, current, limit, elapsed) / 1000)),
+    };
   }
 }
 
+// Time until previous * (WINDOW_MS - t) / WINDOW_MS + current + 1 fits under the limit again,
+// rolling into the next window (where this window's count becomes the previous one) if need be.
+function retryAfterMs(previous: number, current: number, limit: number, elapsed: number): number {
+  if (current + 1 <= limit && previous > 0) {
+    return Math.max(0, WINDOW_MS * (1 - (limit - current - 1) / previous) - elapsed);
+  }
+  return WINDOW_MS - elapsed + Math.max(0, WINDOW_MS * (1 - (limit - 1) / current));
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "ratelimit-limit": String(result.limit),
+    "ratelimit-remaining": String(result.remaining),
+    "ratelimit-reset": String(result.resetSeconds),
+    "ratelimit-policy": `${result.limit};w=${WINDOW_MS / 1000}`,
+    ...(result.allowed ? {} : { "retry-after": String(result.retryAfterSeconds) }),
+  };
+}
+
+export function describeRateLimits(
+  config: Pick<AppConfig, "rateLimitPerMin" | "rateLimitUnpaidPerMin" | "rateLimitWalletPerMin">,
+  routeLimits: Map<string, number>,
+): RateLimitPolicy[] {
+  const windowSeconds = WINDOW_MS / 1000;
+  return [
+    { name: "global", appliesTo: "every request", key: "ip", limit: config.rateLimitPerMin, windowSeconds },
+    {
+      name: "unpaid",
+      appliesTo: "/v1 requests reaching the payment gate, and 402 responses",
+      key: "ip",
+      limit: config.rateLimitUnpaidPerMin,
+      windowSeconds,
+    },
+    { name: "wallet", appliesTo: "paid /v1 requests", key: "wallet", limit: config.rateLimitWalletPerMin, windowSeconds },
+    ...[...routeLimits].map(([route, limit]) => ({
+      name: `route:${route}`,
+      appliesTo: route,
+      key: "wallet_or_ip" as const,
+      limit,
+      windowSeconds,
+    })),
+  ];
+}
+
+function msUntilNextUtcDay(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime() - now;
+}
+
+function spendKey(wallet: string, now: number): string {
+  return `spend\n${wallet.toLowerCase()}\n${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+interface SpendReservation {
+  key: string;
+  amount: number;
+  ttlMs: number;
+}
+
 function getIpFromFastify(request: FastifyRequest): string {
   return request.ip || "unknown";
 }
@@ -43,17 +139,32 @@ function getIpFromFastify(request: FastifyRequest): string {
 export interface RateLimitController {
   globalOnRequest: onRequestHookHandler;
   unpaidAttemptMiddleware: (req: IncomingMessage, res: ServerResponse, next: (err?: Error) => void) => void;
-  recordUnpaidAttempt: (request: FastifyRequest) => void;
+  recordUnpaidAttempt: (request: FastifyRequest) => Promise<void>;
+  // Runs after the payment gate, once the payer is known.
+  paidPreHandler: preHandlerAsyncHookHandler;
+  // Gives back the spend paidPreHandler reserved for a request that was not settled.
+  releaseUnsettledSpend: (request: FastifyRequest) => Promise<void>;
 }
 
-export function createRateLimitController(globalPerMinute: number, unpaidPerMinute: number): RateLimitController {
-  const globalLimiter = new FixedWindowLimiter();
-  const unpaidLimiter = new FixedWindowLimiter();
+// Spend counters go in `spendStore`, which must not evict them before they expire.
+export function createRateLimitController(
+  options: RateLimitOptions,
+  store: StateStore,
+  spendStore: StateStore,
+): RateLimitController {
+  const { globalPerMinute, unpaidPerMinute, walletPerMinute, routeLimits } = options;
+  const globalLimiter = new SlidingWindowLimiter(store, "global");
+  const unpaidLimiter = new SlidingWindowLimiter(store, "unpaid");
+  const walletLimiter = new SlidingWindowLimiter(store, "wallet");
+  const routeLimiter = new SlidingWindowLimiter(store, "route");
+  const spendCap = options.dailySpendCapUsdc ? Number(usdcToBaseUnits(options.dailySpendCapUsdc)) : undefined;
+  const reservations = new WeakMap<FastifyRequest, SpendReservation>();
 
   return {
     globalOnRequest: async (request: FastifyRequest, reply: FastifyReply) => {
-      const allowed = globalLimiter.consume(getIpFromFastify(request), globalPerMinute);
-      if (!allowed) {
+      const result = await globalLimiter.consume(getIpFromFastify(request), globalPerMinute);
+      reply.headers(rateLimitHeaders(result));
+      if (!result.allowed) {
         reply.code(429);
         reply.header("cache-control", "no-store");
         reply.send(errorPayload("RATE_LIMITED", "Global rate limit exceeded"));
@@ -62,24 +173,92 @@ export function createRateLimitController(globalPerMinute: number, unpaidPerMinu
 
     unpaidAttemptMiddleware: (req: IncomingMessage, res: ServerResponse, next: (err?: Error) => void) => {
       const path = (req.url ?? "/").split("?")[0] ?? "/";
-      if (!path.startsWith("/v1/")) {
+      if (!isPaidPath(path)) {
         next();
         return;
       }
 
-      const allowed = unpaidLimiter.consume(getIp(req), unpaidPerMinute);
-      if (!allowed) {
-        const expressLike = adaptExpressLikeResponse(res);
-        expressLike.status?.(429);
-        expressLike.setHeader("cache-control", "no-store");
-        expressLike.json?.(errorPayload("RATE_LIMITED", "Unpaid attempt rate limit exceeded"));
-        return;
+      // middie does not catch rejected promises, so store errors are passed to next().
+      unpaidLimiter.consume(resolveClientIp(req, options.trustProxy), unpaidPerMinute).then((result) => {
+        if (!result.allowed) {
+          const expressLike = adaptExpressLikeResponse(res);
+          expressLike.status?.(429);
+          for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+            expressLike.setHeader(name, value);
+          }
+          expressLike.setHeader("cache-control", "no-store");
+          expressLike.json?.(errorPayload("RATE_LIMITED", "Unpaid attempt rate limit exceeded"));
+          return;
+        }
+        next();
+      }, next);
+    },
+
+    recordUnpaidAttempt: async (request: FastifyRequest) => {
+      await unpaidLimiter.consume(getIpFromFastify(request), unpaidPerMinute);
+    },
+
+    paidPreHandler: async (request: FastifyRequest, reply: FastifyReply) => {
+      applyRawPaymentContext(request);
+      const { wallet, paidMode, amount } = request.requestContext;
+      const route = routeKey(request.method, request.routeOptions.url ?? request.url);
+      const routeLimit = routeLimits.get(route);
+      const caller = wallet ? `wallet:${wallet.toLowerCase()}` : `ip:${getIpFromFastify(request)}`;
+
+      const [walletResult, routeResult] = await Promise.all([
+        wallet ? walletLimiter.consume(wallet.toLowerCase(), walletPerMinute) : undefined,
+        routeLimit ? routeLimiter.consume(`${route}\n${caller}`, routeLimit) : undefined,
+      ]);
+      const denied = [walletResult, routeResult].find((result) => result && !result.allowed);
+      if (denied) {
+        reply.code(429);
+        reply.headers(rateLimitHeaders(denied));
+        reply.header("cache-control", "no-store");
+        const scope = denied === walletResult ? "Wallet" : "Route";
+        return reply.send(errorPayload("RATE_LIMITED", `${scope} rate limit exceeded`));
+      }
+
+      // Headers describe whichever limit is closest to running out.
+      const shown = Number(reply.getHeader("ratelimit-remaining") ?? Number.POSITIVE_INFINITY);
+      const tightest = [walletResult, routeResult]
+        .filter((result): result is RateLimitResult => result !== undefined)
+        .sort((a, b) => a.remaining - b.remaining)[0];
+      if (tightest && tightest.remaining < shown) {
+        reply.headers(rateLimitHeaders(tightest));
+      }
+
+      // Only x402 payments count toward the cap: credits and passes are prepaid and bounded by what was
+      // bought. The amount is reserved before the check, so concurrent payments cannot all pass it before
+      // any of them is counted, and a payment that would go over the cap gives its reservation back.
+      if (spendCap === undefined || paidMode !== "x402" || !wallet || !amount) return;
+      const now = Date.now();
+      const reservation: SpendReservation = {
+        key: spendKey(wallet, now),
+        amount: Number(usdcToBaseUnits(amount)),
+        // The extra minute keeps the counter readable right up to midnight, when unsettled calls release.
+        ttlMs: msUntilNextUtcDay(now) + WINDOW_MS,
+      };
+      const reserved = await spendStore.increment(reservation.key, reservation.ttlMs, reservation.amount);
+      if (reserved > spendCap) {
+        await spendStore.increment(reservation.key, reservation.ttlMs, -reservation.amount);
+        const spent = reserved - reservation.amount;
+        reply.code(429);
+        reply.header("retry-after", String(Math.ceil(msUntilNextUtcDay(now) / 1000)));
+        reply.header("cache-control", "no-store");
+        return reply.send(
+          errorPayload(
+            "SPEND_CAP_EXCEEDED",
+            `Daily spend cap of ${options.dailySpendCapUsdc} USDC would be exceeded (spent ${baseUnitsToUsdc(String(spent))} USDC today); resets at 00:00 UTC`,
+          ),
+        );
       }
-      next();
+      reservations.set(request, reservation);
     },
 
-    recordUnpaidAttempt: (request: FastifyRequest) => {
-      unpaidLimiter.consume(getIpFromFastify(request), unpaidPerMinute);
+    releaseUnsettledSpend: async (request: FastifyRequest) => {
+      const reservation = reservations.get(request);
+      if (!reservation || request.requestContext.settlement === "settled") return;
+      await spendStore.increment(reservation.key, reservation.ttlMs, -reservation.amount);
     },
   };
 }
@@ -0,0 +1,39 @@
+import type { FastifyInstance } from "fastify";
+
+import { RECEIPT_LOOKUP_PREFIX, routeKey } from "../lib/pricing.js";
+import type { ReceiptSigner, SignableReceipt } from "../lib/receipts.js";
+
+interface PaidResponseBody {
+  ok?: boolean;
+  data?: unknown;
+  receipt?: SignableReceipt;
+}
+
+function isPaidResponse(payload: unknown): payload is Required<PaidResponseBody> {
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) return false;
+  const body = payload as PaidResponseBody;
+  return body.ok === true && typeof body.receipt === "object" && body.receipt !== null;
+}
+
+// Registered after settlement so the proof covers the settled txHash, and before idempotency capture so
+// replays return the receipt exactly as first signed. The status link and token are not signed.
+export function registerReceiptSigning(app: FastifyInstance, signer: ReceiptSigner, publicBaseUrl: string): void {
+  app.addHook("preSerialization", async (request, _reply, payload) => {
+    if (!request.url.startsWith("/v1/") || request.requestContext.replayed || !isPaidResponse(payload)) {
+      return payload;
+    }
+
+    const { requestId } = request.requestContext;
+    const path = request.routeOptions.url ?? request.url;
+    const proof = await signer.sign(payload.receipt, requestId, routeKey(request.method, path), payload.data);
+    return {
+      ...payload,
+      receipt: {
+        ...payload.receipt,
+        proof,
+        statusUrl: `${publicBaseUrl}${RECEIPT_LOOKUP_PREFIX}${encodeURIComponent(requestId)}`,
+        statusToken: signer.statusToken({ requestId, route: path, payer: payload.receipt.payer }),
+      },
+    };
+  });
+}
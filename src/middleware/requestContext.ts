@@ -1,7 +1,11 @@
 import { decodePaymentResponseHeader } from "@x402/core/http";
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 
-import { getRawPaymentContext } from "./requirePayment.js";
+import type { CreditDebit } from "../lib/credits.js";
+import type { PassClaims, PassUsage } from "../lib/passes.js";
+import type { QuoteClaims } from "../lib/quotes.js";
+import { getRawPaymentContext, type PaidMode } from "./requirePayment.js";
+import type { SettlementStatus } from "./settlement.js";
 
 declare module "fastify" {
   interface FastifyRequest {
@@ -9,12 +13,21 @@ declare module "fastify" {
       requestId: string;
       startedAt: number;
       paid: boolean;
-      paidMode: "x402" | "dev_bypass" | false;
+      paidMode: PaidMode;
       amount?: string;
       wallet?: string;
       receiver?: string;
+      chainId?: number;
+      network?: string;
+      asset?: string;
       txHash?: string;
+      settlement?: SettlementStatus;
+      credits?: CreditDebit;
+      pass?: PassClaims;
+      passUsage?: PassUsage;
+      quote?: QuoteClaims;
       idempotencyKey?: string;
+      replayed?: boolean;
     };
   }
 }
@@ -25,7 +38,7 @@ function getPaymentResponseHeader(reply: FastifyReply): string | undefined {
   return undefined;
 }
 
-function applyRawPaymentContext(request: FastifyRequest): void {
+export function applyRawPaymentContext(request: FastifyRequest): void {
   const context = getRawPaymentContext(request.raw);
   if (!context) return;
 
@@ -34,7 +47,12 @@ function applyRawPaymentContext(request: FastifyRequest): void {
   request.requestContext.amount = context.amount;
   request.requestContext.wallet = context.wallet;
   request.requestContext.receiver = context.receiver;
+  request.requestContext.chainId = context.chainId;
+  request.requestContext.network = context.network;
+  request.requestContext.asset = context.asset;
   request.requestContext.idempotencyKey = context.idempotencyKey;
+  request.requestContext.pass = context.pass;
+  request.requestContext.quote = context.quote;
 }
 
 export async function registerRequestContext(app: FastifyInstance): Promise<void> {
@@ -86,7 +104,11 @@ export async function registerRequestContext(app: FastifyInstance): Promise<void
         amount: request.requestContext.amount,
         wallet: request.requestContext.wallet,
         receiver: request.requestContext.receiver,
+        network: request.requestContext.network,
+        asset: request.requestContext.asset,
+        settlement: request.requestContext.settlement,
         idempotency_key: request.requestContext.idempotencyKey,
+        replayed: request.requestContext.replayed,
       },
       "request_complete",
     );
@@ -1,16 +1,21 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 
-import { decodePaymentSignatureHeader } from "@x402/core/http";
+import { decodePaymentRequiredHeader, decodePaymentSignatureHeader } from "@x402/core/http";
 
+import type { NetworkConfig } from "../config.js";
+import { resolveCreditWallet, type CreditStore } from "../lib/credits.js";
 import { adaptExpressLikeRequest, adaptExpressLikeResponse, getHeader } from "../lib/expressCompat.js";
-import { DNS_ROUTE_PRICE_USDC } from "../lib/dnsLookup.js";
-import { errorPayload } from "../lib/errors.js";
-import { SENTIMENT_ROUTE_PRICE_USDC } from "../lib/sentiment.js";
+import { AppError, errorPayload, type ErrorCode } from "../lib/errors.js";
+import { chainIdFromCaip } from "../lib/networks.js";
+import { PASS_HEADER, type AccessPasses, type PassClaims } from "../lib/passes.js";
+import { baseUnitsToUsdc, isPaidPath, routeKey, type PricingRegistry, type RoutePrice } from "../lib/pricing.js";
+import { QUOTE_HEADER, type PriceQuotes, type QuoteClaims } from "../lib/quotes.js";
+import type { PaymentRequiredDescriber } from "../routes/paidRoute.js";
 
 export const DEV_BYPASS_HEADER = "x-dev-bypass";
 const PAYMENT_CONTEXT = Symbol.for("x402.payment-context");
 
-type PaidMode = "x402" | "dev_bypass" | false;
+export type PaidMode = "x402" | "dev_bypass" | "credits" | "pass" | false;
 
 export interface RawPaymentContext {
   paid: boolean;
@@ -19,7 +24,11 @@ export interface RawPaymentContext {
   wallet?: string;
   receiver?: string;
   chainId?: number;
+  network?: string;
+  asset?: string;
   idempotencyKey?: string;
+  pass?: PassClaims;
+  quote?: QuoteClaims;
 }
 
 interface MutableRequest extends IncomingMessage {
@@ -30,43 +39,80 @@ export interface RequirePaymentOptions {
   x402Middleware?: (req: IncomingMessage, res: ServerResponse, next: (err?: Error) => void) => Promise<void> | void;
   devBypassEnabled: boolean;
   nodeEnv: string;
-  chainId: number;
-  receiverAddress: string;
-  amount: string;
+  network: NetworkConfig;
+  pricing: PricingRegistry;
+  credits?: CreditStore;
+  // Route keys that may be paid from a prepaid credit balance instead of per-request x402.
+  creditRoutes?: Set<string>;
+  passes?: AccessPasses;
+  // Honors X-Quote-Id: a redeemed quote replaces the list price everywhere the gate prices a request.
+  quotes?: PriceQuotes;
+  // Adds requirements, price and catalog details to 402 bodies.
+  describePayment?: PaymentRequiredDescriber;
 }
 
-function resolveDevBypassAmount(path: string, defaultAmount: string): string {
-  if (path === "/v1/dns") {
-    return DNS_ROUTE_PRICE_USDC;
-  }
+// The request as the gate prices it.
+interface GateRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  quote?: QuoteClaims;
+}
 
-  if (path === "/v1/sentiment") {
-    return SENTIMENT_ROUTE_PRICE_USDC;
-  }
+function priceOf(pricing: PricingRegistry, gate: GateRequest): RoutePrice {
+  return gate.quote ?? pricing.quote(gate.method, gate.path, gate.body);
+}
 
-  return defaultAmount;
+function resolveDevBypassAmount(pricing: PricingRegistry, gate: GateRequest): string | undefined {
+  if (!pricing.get(gate.method, gate.path)) return undefined;
+  return priceOf(pricing, gate).priceUsdc;
 }
 
 function setPaymentContext(req: IncomingMessage, context: RawPaymentContext): void {
   (req as MutableRequest)[PAYMENT_CONTEXT] = context;
 }
 
-function normalize402Json(res: ServerResponse): void {
+// Every 402 from the gate has the same shape: the usual error envelope plus the payment details. The
+// x402 middleware's own requirements, from its PAYMENT-REQUIRED header, win over the computed ones.
+function paymentRequiredBody(
+  options: RequirePaymentOptions,
+  gate: GateRequest,
+  code: ErrorCode,
+  message: string,
+  x402Header?: string,
+): Record<string, unknown> {
+  const details = options.describePayment?.(gate.method, gate.path, gate.body, gate.quote);
+  const payload = { ...errorPayload(code, message), ...details };
+  if (!x402Header) return payload;
+
+  try {
+    const paymentRequired = decodePaymentRequiredHeader(x402Header);
+    return { ...payload, x402Version: paymentRequired.x402Version, accepts: paymentRequired.accepts };
+  } catch {
+    return payload;
+  }
+}
+
+function normalize402Json(options: RequirePaymentOptions, gate: GateRequest, res: ServerResponse): void {
   const expressLike = adaptExpressLikeResponse(res);
   const originalJson = expressLike.json?.bind(expressLike);
 
   if (!originalJson) return;
 
-  expressLike.json = ((body: unknown) => {
+  expressLike.json = ((responseBody: unknown) => {
     if (expressLike.statusCode === 402) {
-      const message =
-        typeof body === "object" && body !== null && "error" in body
-          ? String((body as { error?: unknown }).error ?? "Payment required")
-          : "Payment required";
-
-      return originalJson(errorPayload("PAYMENT_REQUIRED", message));
+      const header = res.getHeader("payment-required");
+      const x402Header = typeof header === "string" ? header : undefined;
+      let message = "Payment required";
+      try {
+        const reason = x402Header ? decodePaymentRequiredHeader(x402Header).error : undefined;
+        if (reason && reason !== message) message = `Payment rejected: ${reason}`;
+      } catch {
+        // Keep the generic message when the header cannot be read.
+      }
+      return originalJson(paymentRequiredBody(options, gate, "PAYMENT_REQUIRED", message, x402Header));
     }
-    return originalJson(body);
+    return originalJson(responseBody);
   }) as typeof expressLike.json;
 }
 
@@ -84,6 +130,95 @@ function extractPayer(payload: Record<string, unknown>): string | undefined {
   return undefined;
 }
 
+// Only checks that the pass may still be used; settlement counts the call once the handler has succeeded.
+// The pass names its wallet, but the caller must prove it with the credentials credits accept, so a
+// leaked pass cannot be spent as, or screened and rate limited as, the wallet that bought it.
+async function resolvePassContext(
+  options: RequirePaymentOptions,
+  passes: AccessPasses,
+  token: string,
+  req: IncomingMessage,
+  method: string,
+  path: string,
+): Promise<RawPaymentContext> {
+  const claims = passes.verify(token);
+  if (!claims) {
+    throw new AppError(401, "UNAUTHORIZED", "Invalid access pass");
+  }
+  const wallet = options.credits ? await resolveCreditWallet(options.credits, req.headers, method, path) : undefined;
+  if (!wallet || wallet.toLowerCase() !== claims.wallet.toLowerCase()) {
+    throw new AppError(401, "UNAUTHORIZED", "Access pass must come with a credit token or signature from its wallet");
+  }
+  if (claims.expiresAt * 1000 <= Date.now()) {
+    throw new AppError(402, "PASS_INVALID", `Access pass expired at ${new Date(claims.expiresAt * 1000).toISOString()}`);
+  }
+  const key = routeKey(method, path);
+  if (!claims.routes.includes(key)) {
+    throw new AppError(402, "PASS_INVALID", `Access pass does not cover ${key}`);
+  }
+  if (claims.maxCalls !== undefined && (await passes.store.usage(claims.id)) >= claims.maxCalls) {
+    throw new AppError(402, "PASS_EXHAUSTED", `Access pass has used all ${claims.maxCalls} calls`);
+  }
+
+  return {
+    paid: true,
+    paidMode: "pass",
+    amount: "0",
+    wallet,
+    receiver: options.network.receiverAddress,
+    chainId: options.network.chainId,
+    network: options.network.network,
+    asset: options.network.usdcContract,
+    pass: claims,
+  };
+}
+
+// Only checks that the balance covers the price; settlement debits it once the handler has succeeded.
+async function resolveCreditContext(
+  options: RequirePaymentOptions,
+  credits: CreditStore,
+  req: IncomingMessage,
+  gate: GateRequest,
+): Promise<RawPaymentContext | undefined> {
+  const wallet = await resolveCreditWallet(credits, req.headers, gate.method, gate.path);
+  if (!wallet) return undefined;
+
+  const price = priceOf(options.pricing, gate);
+  const balance = await credits.balance(wallet);
+  if (balance < BigInt(price.priceBaseUnits)) {
+    throw new AppError(
+      402,
+      "INSUFFICIENT_CREDITS",
+      `Credit balance of ${baseUnitsToUsdc(balance.toString())} USDC does not cover ${price.priceUsdc} USDC`,
+    );
+  }
+
+  return {
+    paid: true,
+    paidMode: "credits",
+    amount: price.priceUsdc,
+    wallet,
+    receiver: options.network.receiverAddress,
+    chainId: options.network.chainId,
+    network: options.network.network,
+    asset: options.network.usdcContract,
+    quote: gate.quote,
+  };
+}
+
+export function readPaymentHeader(req: IncomingMessage): string | undefined {
+  return getHeader(req, "payment-signature") ?? getHeader(req, "x-payment");
+}
+
+// The payer an x402 payment header claims, without verifying it.
+export function peekPaymentPayer(paymentHeader: string): string | undefined {
+  try {
+    return extractPayer(decodePaymentSignatureHeader(paymentHeader).payload as Record<string, unknown>);
+  } catch {
+    return undefined;
+  }
+}
+
 export function getRawPaymentContext(raw: unknown): RawPaymentContext | undefined {
   return (raw as MutableRequest)[PAYMENT_CONTEXT];
 }
@@ -91,7 +226,7 @@ export function getRawPaymentContext(raw: unknown): RawPaymentContext | undefine
 export function createRequirePaymentMiddleware(options: RequirePaymentOptions) {
   return async (req: IncomingMessage, res: ServerResponse, next: (err?: Error) => void): Promise<void> => {
     const path = (req.url ?? "/").split("?")[0] ?? "/";
-    if (!path.startsWith("/v1/")) {
+    if (!isPaidPath(path)) {
       next();
       return;
     }
@@ -100,17 +235,62 @@ export function createRequirePaymentMiddleware(options: RequirePaymentOptions) {
     const expressRes = adaptExpressLikeResponse(res);
 
     const idempotencyKey = getHeader(req, "idempotency-key");
+    const method = req.method ?? "POST";
+    const gate: GateRequest = { method, path, body: expressReq.body };
+
+    const quoteId = getHeader(req, QUOTE_HEADER);
+    if (quoteId && options.quotes) {
+      try {
+        gate.quote = options.quotes.redeem(quoteId, method, path, gate.body);
+      } catch (error) {
+        next(error as Error);
+        return;
+      }
+    }
+
+    const passToken = getHeader(req, PASS_HEADER);
+    if (passToken && options.passes) {
+      let passContext: RawPaymentContext;
+      try {
+        passContext = await resolvePassContext(options, options.passes, passToken, req, method, path);
+      } catch (error) {
+        next(error as Error);
+        return;
+      }
+
+      setPaymentContext(req, { ...passContext, idempotencyKey: idempotencyKey ?? undefined });
+      next();
+      return;
+    }
+
+    if (options.credits && options.creditRoutes?.has(routeKey(method, path))) {
+      let creditContext: RawPaymentContext | undefined;
+      try {
+        creditContext = await resolveCreditContext(options, options.credits, req, gate);
+      } catch (error) {
+        next(error as Error);
+        return;
+      }
+
+      if (creditContext) {
+        setPaymentContext(req, { ...creditContext, idempotencyKey: idempotencyKey ?? undefined });
+        next();
+        return;
+      }
+    }
 
     if (options.devBypassEnabled && options.nodeEnv !== "production") {
       if (getHeader(req, DEV_BYPASS_HEADER) === "true") {
-        const amount = resolveDevBypassAmount(path, options.amount);
         setPaymentContext(req, {
           paid: true,
           paidMode: "dev_bypass",
-          amount,
-          receiver: options.receiverAddress,
-          chainId: options.chainId,
+          amount: resolveDevBypassAmount(options.pricing, gate),
+          receiver: options.network.receiverAddress,
+          chainId: options.network.chainId,
+          network: options.network.network,
+          asset: options.network.usdcContract,
           idempotencyKey: idempotencyKey ?? undefined,
+          quote: gate.quote,
         });
         next();
         return;
@@ -119,7 +299,9 @@ export function createRequirePaymentMiddleware(options: RequirePaymentOptions) {
       expressRes.status?.(402);
       expressRes.setHeader("PAYMENT-REQUIRED", "dev-bypass");
       expressRes.setHeader("cache-control", "no-store");
-      expressRes.json?.(errorPayload("PAYMENT_REQUIRED", `Provide ${DEV_BYPASS_HEADER}: true for local bypass`));
+      expressRes.json?.(
+        paymentRequiredBody(options, gate, "PAYMENT_REQUIRED", `Provide ${DEV_BYPASS_HEADER}: true for local bypass`),
+      );
       return;
     }
 
@@ -130,9 +312,7 @@ export function createRequirePaymentMiddleware(options: RequirePaymentOptions) {
       return;
     }
 
-    normalize402Json(res);
-
-    const paymentHeader = getHeader(req, "payment-signature") ?? getHeader(req, "x-payment");
+    const paymentHeader = readPaymentHeader(req);
     if (paymentHeader) {
       try {
         const decoded = decodePaymentSignatureHeader(paymentHeader);
@@ -140,20 +320,24 @@ export function createRequirePaymentMiddleware(options: RequirePaymentOptions) {
         setPaymentContext(req, {
           paid: true,
           paidMode: "x402",
-          amount: decoded.accepted.amount,
+          amount: baseUnitsToUsdc(decoded.accepted.amount),
           receiver: decoded.accepted.payTo,
           wallet: extractPayer(payload),
-          chainId: options.chainId,
+          chainId: chainIdFromCaip(decoded.accepted.network),
+          network: decoded.accepted.network,
+          asset: decoded.accepted.asset,
           idempotencyKey: idempotencyKey ?? undefined,
+          quote: gate.quote,
         });
       } catch {
         expressRes.status?.(402);
         expressRes.setHeader("cache-control", "no-store");
-        expressRes.json?.(errorPayload("PAYMENT_INVALID", "Malformed payment signature header"));
+        expressRes.json?.(paymentRequiredBody(options, gate, "PAYMENT_INVALID", "Malformed payment signature header"));
         return;
       }
     }
 
+    normalize402Json(options, gate, res);
     await options.x402Middleware(expressReq, expressRes, next);
   };
 }
@@ -0,0 +1,211 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from "fastify";
+
+import type { CreditDebit, CreditStore } from "../lib/credits.js";
+import { errorPayload } from "../lib/errors.js";
+import { toPassUsage, type AccessPasses, type PassUsage } from "../lib/passes.js";
+import { baseUnitsToUsdc, routeKey, usdcToBaseUnits } from "../lib/pricing.js";
+import { getVerifiedPayment, type X402Bundle } from "../x402/createX402Middleware.js";
+import { applyRawPaymentContext } from "./requestContext.js";
+
+// "on_success" charges only responses below 400; "always" also charges error responses, for routes
+// whose cost is incurred even when the handler fails; "upfront" charges before the handler runs, for
+// routes whose handler hands out value (such as credits) that must not exist without a payment.
+export type SettlementPolicy = "on_success" | "always" | "upfront";
+
+export type SettlementStatus = "settled" | "not_charged" | "settlement_failed";
+
+export interface SettlementOptions {
+  x402?: Pick<X402Bundle, "settle">;
+  credits?: CreditStore;
+  passes?: AccessPasses;
+  policies: Map<string, SettlementPolicy>;
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    settleUpfront: preHandlerAsyncHookHandler;
+  }
+}
+
+interface PaymentStatus {
+  charged: boolean;
+  txHash?: string;
+  credits?: CreditDebit;
+  pass?: PassUsage;
+  reason?: string;
+}
+
+interface ResponseBody {
+  ok?: boolean;
+  receipt?: { txHash?: string; payer?: string };
+  payment?: PaymentStatus;
+}
+
+function isObject(payload: unknown): payload is ResponseBody {
+  return typeof payload === "object" && payload !== null && !Array.isArray(payload);
+}
+
+// Error bodies say whether the caller was charged; success bodies carry the charge in the receipt.
+function annotate(payload: unknown, status: PaymentStatus): unknown {
+  if (!isObject(payload)) return payload;
+  if (payload.ok === false) {
+    return { ...payload, payment: status };
+  }
+  if (!payload.receipt || !status.charged) return payload;
+
+  const { txHash, credits, pass } = status;
+  return {
+    ...payload,
+    receipt: {
+      ...payload.receipt,
+      ...(txHash ? { txHash } : {}),
+      ...(credits ? { credits } : {}),
+      ...(pass ? { pass } : {}),
+    },
+  };
+}
+
+function chargedStatus(request: FastifyRequest): PaymentStatus {
+  const { txHash, credits, passUsage } = request.requestContext;
+  return {
+    charged: true,
+    ...(txHash ? { txHash } : {}),
+    ...(credits ? { credits } : {}),
+    ...(passUsage ? { pass: passUsage } : {}),
+  };
+}
+
+function isChargeable(request: FastifyRequest, options: SettlementOptions): boolean {
+  const { paidMode } = request.requestContext;
+  if (paidMode === "credits") return Boolean(options.credits);
+  if (paidMode === "pass") return Boolean(options.passes);
+  return Boolean(options.x402 && getVerifiedPayment(request.raw));
+}
+
+// Charges the request's x402 payment, credit balance or access pass. Returns the error body to send
+// when the charge did not go through.
+async function charge(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  options: SettlementOptions,
+): Promise<Record<string, unknown> | undefined> {
+  const context = request.requestContext;
+  const route = request.routeOptions.url ?? request.url;
+
+  if (context.paidMode === "credits") {
+    const remaining =
+      options.credits && context.wallet && context.amount
+        ? await options.credits.debit(context.wallet, BigInt(usdcToBaseUnits(context.amount)))
+        : undefined;
+    if (remaining === undefined) {
+      context.settlement = "settlement_failed";
+      request.log.warn(
+        { request_id: context.requestId, route, status: reply.statusCode, payer: context.wallet },
+        "credit_debit_failed",
+      );
+      return {
+        ...errorPayload("INSUFFICIENT_CREDITS", "Credit balance no longer covers this request; the request was not charged"),
+        payment: { charged: false, reason: "Insufficient credits" },
+      };
+    }
+    context.settlement = "settled";
+    context.credits = { debitedUsdc: context.amount ?? "0", balanceUsdc: baseUnitsToUsdc(remaining.toString()) };
+    return undefined;
+  }
+
+  if (context.paidMode === "pass") {
+    const pass = context.pass;
+    const used = pass && options.passes ? await options.passes.store.consume(pass.id, pass.maxCalls) : undefined;
+    if (!pass || used === undefined) {
+      context.settlement = "settlement_failed";
+      request.log.warn(
+        { request_id: context.requestId, route, status: reply.statusCode, payer: context.wallet, pass: pass?.id },
+        "pass_use_failed",
+      );
+      return {
+        ...errorPayload("PASS_EXHAUSTED", "Access pass has no calls left; the request was not counted"),
+        payment: { charged: false, reason: "Access pass exhausted" },
+      };
+    }
+    context.settlement = "settled";
+    context.passUsage = toPassUsage(pass, used);
+    return undefined;
+  }
+
+  const payment = getVerifiedPayment(request.raw);
+  if (!payment || !options.x402) return undefined;
+
+  const result = await options.x402.settle(payment);
+  if (!result.success) {
+    context.settlement = "settlement_failed";
+    request.log.error(
+      { request_id: context.requestId, route, status: reply.statusCode, payer: context.wallet, reason: result.reason },
+      "settlement_failed",
+    );
+    return {
+      ...errorPayload("SETTLEMENT_FAILED", "Payment settlement failed; the request was not charged"),
+      payment: { charged: false, reason: result.reason },
+    };
+  }
+
+  context.settlement = "settled";
+  context.txHash = result.transaction;
+  if (result.payer) {
+    context.wallet = result.payer;
+  }
+  for (const [key, value] of Object.entries(result.headers)) {
+    reply.header(key, value);
+  }
+  return undefined;
+}
+
+async function settleResponse(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+  options: SettlementOptions,
+): Promise<unknown> {
+  const context = request.requestContext;
+  if (context.settlement === "settled") return annotate(payload, chargedStatus(request));
+  applyRawPaymentContext(request);
+  if (context.settlement || !isChargeable(request, options)) return payload;
+
+  const route = request.routeOptions.url ?? request.url;
+  const policy = options.policies.get(routeKey(request.method, route)) ?? "on_success";
+
+  if (reply.statusCode >= 400 && policy !== "always") {
+    context.settlement = "not_charged";
+    request.log.warn(
+      { request_id: context.requestId, route, status: reply.statusCode, payer: context.wallet },
+      "payment_not_settled",
+    );
+    return annotate(payload, { charged: false, reason: `Handler responded with ${reply.statusCode}` });
+  }
+
+  const failure = await charge(request, reply, options);
+  if (failure) {
+    reply.code(402);
+    reply.header("cache-control", "no-store");
+    return failure;
+  }
+  return annotate(payload, chargedStatus(request));
+}
+
+// Settles payments once the handler has produced a response, before it is serialized, so the response
+// can report the outcome. Payments on responses that are never serialized are not settled.
+// Routes with the "upfront" policy add app.settleUpfront as a preHandler instead.
+export function registerSettlement(app: FastifyInstance, options: SettlementOptions): void {
+  app.decorate("settleUpfront", async function (request: FastifyRequest, reply: FastifyReply) {
+    applyRawPaymentContext(request);
+    if (request.requestContext.settlement || !isChargeable(request, options)) return;
+
+    const failure = await charge(request, reply, options);
+    if (failure) {
+      reply.code(402);
+      reply.header("cache-control", "no-store");
+      return reply.send(failure);
+    }
+  });
+
+  app.addHook("preSerialization", async (request, reply, payload) => settleResponse(request, reply, payload, options));
+}
@@ -0,0 +1,37 @@
+import type { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from "fastify";
+
+import { sendError } from "../lib/errors.js";
+import { routeKey } from "../lib/pricing.js";
+import type { WalletPolicy } from "../lib/walletPolicy.js";
+import { applyRawPaymentContext } from "./requestContext.js";
+
+// Answers 403 when the policy refuses this payer on the request's route. Requests without a payer,
+// such as dev bypass, are refused on allowlisted routes, since no wallet on them can be allowlisted.
+export function rejectWallet(
+  policy: WalletPolicy,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  wallet: string | undefined,
+): FastifyReply | undefined {
+  const context = request.requestContext;
+  const route = routeKey(request.method, request.routeOptions.url ?? request.url);
+  const rejection = policy.check(wallet, route);
+  if (!rejection) return undefined;
+
+  context.settlement = "not_charged";
+  request.log.warn(
+    { request_id: context.requestId, route, payer: wallet, paid_mode: context.paidMode, reason: rejection.reason },
+    "wallet_rejected",
+  );
+  return sendError(reply, 403, "WALLET_REJECTED", rejection.message);
+}
+
+// Runs after the payment gate, so the payer is the one the gate verified: the x402 authorization's
+// signer, the credit wallet or the pass holder. Rejected requests are never settled.
+export function createWalletScreeningHook(policy: WalletPolicy): preHandlerAsyncHookHandler {
+  return async (request, reply) => {
+    if (!request.url.startsWith("/v1/")) return;
+    applyRawPaymentContext(request);
+    return rejectWallet(policy, request, reply, request.requestContext.wallet);
+  };
+}
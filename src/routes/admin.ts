@@ -0,0 +1,148 @@
+import { timingSafeEqual } from "node:crypto";
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+
+import type { AppConfig } from "../config.js";
+import { AppError, sendError } from "../lib/errors.js";
+import { LEDGER_COLUMNS, toCsv, type Ledger, type LedgerQuery } from "../lib/ledger.js";
+import type { WalletPolicy } from "../lib/walletPolicy.js";
+
+interface LedgerQuerystring {
+  payer?: string;
+  route?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const LEDGER_QUERYSTRING_SCHEMA = {
+  type: "object",
+  properties: {
+    payer: { type: "string", minLength: 1 },
+    route: { type: "string", minLength: 1 },
+    from: { type: "string", minLength: 1 },
+    to: { type: "string", minLength: 1 },
+    limit: { type: "integer", minimum: 1, maximum: 10_000 },
+  },
+  additionalProperties: false,
+};
+
+function isAuthorized(request: FastifyRequest, adminToken: string): boolean {
+  const header = request.headers.authorization;
+  if (typeof header !== "string" || !header.startsWith("Bearer ")) return false;
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(adminToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function parseTime(value: string | undefined, field: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new AppError(400, "INTERNAL_ERROR", `Invalid ${field} timestamp: ${value}`);
+  }
+  return new Date(time);
+}
+
+function toLedgerQuery(query: LedgerQuerystring): LedgerQuery {
+  return {
+    payer: query.payer,
+    route: query.route,
+    from: parseTime(query.from, "from"),
+    to: parseTime(query.to, "to"),
+    limit: query.limit,
+  };
+}
+
+// Admin routes exist only when ADMIN_TOKEN is set; callers send it as a bearer token.
+export async function registerAdminRoutes(
+  app: FastifyInstance,
+  config: AppConfig,
+  ledger: Ledger,
+  walletPolicy?: WalletPolicy,
+): Promise<void> {
+  const { adminToken } = config;
+  if (!adminToken) return;
+
+  const requireAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!isAuthorized(request, adminToken)) {
+      return sendError(reply, 401, "UNAUTHORIZED", "Admin token required");
+    }
+  };
+
+  app.get<{ Querystring: LedgerQuerystring }>(
+    "/admin/ledger",
+    {
+      onRequest: requireAdmin,
+      schema: {
+        querystring: LEDGER_QUERYSTRING_SCHEMA,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              entries: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    ...Object.fromEntries(
+                      LEDGER_COLUMNS.map((column) => [column, { type: column === "status" ? "number" : "string" }]),
+                    ),
+                    splits: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          receiver: { type: "string" },
+                          percent: { type: "number" },
+                          amount: { type: "string" },
+                          payout: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            required: ["ok", "entries"],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      reply.header("cache-control", "no-store");
+      return { ok: true, entries: await ledger.query(toLedgerQuery(request.query)) };
+    },
+  );
+
+  app.get<{ Querystring: LedgerQuerystring }>(
+    "/admin/ledger.csv",
+    {
+      onRequest: requireAdmin,
+      schema: {
+        querystring: LEDGER_QUERYSTRING_SCHEMA,
+      },
+    },
+    async (request, reply) => {
+      const entries = await ledger.query(toLedgerQuery(request.query));
+      reply.header("cache-control", "no-store");
+      reply.header("content-type", "text/csv; charset=utf-8");
+      reply.header("content-disposition", 'attachment; filename="ledger.csv"');
+      return toCsv(entries);
+    },
+  );
+
+  if (!walletPolicy) return;
+
+  // The policy file is also picked up automatically when it changes; this applies an edit immediately.
+  app.post("/admin/wallet-policy/reload", { onRequest: requireAdmin }, async (_request, reply) => {
+    try {
+      const policy = walletPolicy.reload();
+      reply.header("cache-control", "no-store");
+      return { ok: true, policy };
+    } catch (error) {
+      return sendError(reply, 400, "INTERNAL_ERROR", (error as Error).message);
+    }
+  });
+}
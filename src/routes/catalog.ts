@@ -1,109 +1,45 @@
 import type { FastifyInstance } from "fastify";
 
 import type { AppConfig } from "../config.js";
-import { DNS_ROUTE_PRICE_USDC } from "../lib/dnsLookup.js";
+
+export interface CatalogPaymentOption {
+  scheme: string;
+  network: string;
+  chainId: number;
+  asset: string;
+  payTo: string;
+}
 
 export interface EndpointEntry {
   method: string;
   path: string;
   description: string;
   priceUsdc: string;
+  pricePerUnitUsdc?: string;
+  priceUnit?: string;
+  accepts: CatalogPaymentOption[];
   requiredHeaders: Record<string, string>;
   body?: Record<string, string>;
   response: Record<string, string>;
 }
 
-export const PAID_ENDPOINTS: EndpointEntry[] = [
-  {
-    method: "POST",
-    path: "/v1/echo",
-    description: "Echo back any JSON payload — useful for testing x402 client integration",
-    priceUsdc: "0.001",
-    requiredHeaders: {
-      "Idempotency-Key": "Unique key per request (UUID recommended)",
-      "X-PAYMENT": "x402 payment header (auto-added by compliant x402 clients)",
-    },
-    body: {
-      "*": "Any JSON value — echoed back verbatim",
-    },
-    response: {
-      "data.echo": "The request body",
-      "data.timestamp": "Unix ms",
-      "data.request_id": "Server-assigned request ID",
-      "receipt.*": "Payment receipt with chainId, txHash, payer, receiver, amount",
-    },
-  },
-  {
-    method: "POST",
-    path: "/v1/extract",
-    description: "Extract clean text, title, description, and links from any public URL",
-    priceUsdc: "0.005",
-    requiredHeaders: {
-      "Idempotency-Key": "Unique key per request (UUID recommended)",
-      "X-PAYMENT": "x402 payment header (auto-added by compliant x402 clients)",
-    },
-    body: {
-      url: "string (required) — URL to fetch and extract",
-      "options.includeLinks": "boolean — include outbound links in response (default: false)",
-      "options.includeImages": "boolean — include image URLs in response (default: false)",
-    },
-    response: {
-      "data.title": "Page title",
-      "data.text": "Clean extracted body text",
-      "data.description": "Meta description or excerpt",
-      "data.links": "Array of outbound links (if requested)",
-      "data.wordCount": "Approximate word count",
-      "data.language": "Detected language code",
-      "data.request_id": "Server-assigned request ID",
-      "receipt.*": "Payment receipt with chainId, txHash, payer, receiver, amount",
-    },
-  },
-  {
-    method: "POST",
-    path: "/v1/dns",
-    description: "Resolve DNS records and inspect TLS certificate metadata for a hostname",
-    priceUsdc: DNS_ROUTE_PRICE_USDC,
-    requiredHeaders: {
-      "Idempotency-Key": "Unique key per request (UUID recommended)",
-      "X-PAYMENT": "x402 payment header (auto-added by compliant x402 clients)",
-    },
-    body: {
-      domain: "string (required) — hostname to inspect",
-      records: "array (required) — any of A, AAAA, CNAME, MX, TXT, NS, SOA",
-    },
-    response: {
-      "data.domain": "Normalized hostname",
-      "data.records": "Requested DNS record sets keyed by record type",
-      "data.ssl": "TLS certificate summary or null when unavailable",
-      "data.request_id": "Server-assigned request ID",
-      "receipt.*": "Payment receipt with chainId, txHash, payer, receiver, amount",
-    },
-  },
-  {
-    method: "POST",
-    path: "/v1/sentiment",
-    description: "Analyze overall and sentence-level sentiment for submitted text",
-    priceUsdc: "0.002",
-    requiredHeaders: {
-      "Idempotency-Key": "Unique key per request (UUID recommended)",
-      "X-PAYMENT": "x402 payment header (auto-added by compliant x402 clients)",
-    },
-    body: {
-      text: "string (required) — text to analyze, max 10KB",
-    },
-    response: {
-      "data.sentiment": "Overall sentiment label: positive, neutral, or negative",
-      "data.score": "Normalized overall score in the range [-1, 1]",
-      "data.magnitude": "Absolute sentiment intensity in the range [0, 1]",
-      "data.language": "Best-effort detected language code",
-      "data.sentences": "Sentence-level sentiment summaries",
-      "data.request_id": "Server-assigned request ID",
-      "receipt.*": "Payment receipt with chainId, txHash, payer, receiver, amount",
-    },
-  },
-];
+export interface CatalogPass {
+  id: string;
+  description: string;
+  method: string;
+  path: string;
+  priceUsdc: string;
+  covers: string[];
+  durationSeconds: number;
+  maxCalls?: number;
+}
 
-export async function registerCatalogRoute(app: FastifyInstance, config: AppConfig): Promise<void> {
+export async function registerCatalogRoute(
+  app: FastifyInstance,
+  config: AppConfig,
+  endpoints: EndpointEntry[],
+  passes: CatalogPass[] = [],
+): Promise<void> {
   app.get(
     "/catalog",
     {
@@ -116,12 +52,15 @@ export async function registerCatalogRoute(app: FastifyInstance, config: AppConf
               service: { type: "string" },
               publicBaseUrl: { type: "string" },
               chainId: { type: "number" },
+              network: { type: "string" },
+              asset: { type: "string" },
               currency: { type: "string" },
               receiver: { type: "string" },
               x402: {
                 type: "object",
                 properties: {
                   protocol: { type: "string" },
+                  facilitatorMode: { type: "string" },
                   facilitatorUrl: { type: "string" },
                   howToPayUrl: { type: "string" },
                 },
@@ -135,15 +74,49 @@ export async function registerCatalogRoute(app: FastifyInstance, config: AppConf
                     path: { type: "string" },
                     description: { type: "string" },
                     priceUsdc: { type: "string" },
+                    pricePerUnitUsdc: { type: "string" },
+                    priceUnit: { type: "string" },
+                    accepts: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          scheme: { type: "string" },
+                          network: { type: "string" },
+                          chainId: { type: "number" },
+                          asset: { type: "string" },
+                          payTo: { type: "string" },
+                        },
+                      },
+                    },
                     requiredHeaders: { type: "object", additionalProperties: { type: "string" } },
                     body: { type: "object", additionalProperties: { type: "string" } },
                     response: { type: "object", additionalProperties: { type: "string" } },
                   },
-                  required: ["method", "path", "description", "priceUsdc"],
+                  required: ["method", "path", "description", "priceUsdc", "accepts"],
+                },
+              },
+              passes: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    description: { type: "string" },
+                    method: { type: "string" },
+                    path: { type: "string" },
+                    url: { type: "string" },
+                    priceUsdc: { type: "string" },
+                    covers: { type: "array", items: { type: "string" } },
+                    durationSeconds: { type: "number" },
+                    maxCalls: { type: "number" },
+                    header: { type: "string" },
+                  },
+                  required: ["id", "method", "path", "priceUsdc", "covers", "durationSeconds"],
                 },
               },
             },
-            required: ["ok", "service", "publicBaseUrl", "chainId", "currency", "receiver", "endpoints"],
+            required: ["ok", "service", "publicBaseUrl", "chainId", "network", "currency", "receiver", "endpoints"],
           },
         },
       },
@@ -155,18 +128,27 @@ export async function registerCatalogRoute(app: FastifyInstance, config: AppConf
         ok: true,
         service: config.serviceName,
         publicBaseUrl: config.publicBaseUrl,
-        chainId: config.chainId,
+        chainId: config.network.chainId,
+        network: config.network.network,
+        asset: config.network.usdcContract,
         currency: "USDC",
-        receiver: config.receiverAddress,
+        receiver: config.network.receiverAddress,
         x402: {
           protocol: "x402",
-          facilitatorUrl: "https://x402.org/facilitator",
+          facilitatorMode: config.facilitatorMode,
+          // The self facilitator runs inside this service, so there is no separate URL to advertise.
+          facilitatorUrl: config.facilitatorMode === "remote" ? config.facilitatorUrl : undefined,
           howToPayUrl: "https://x402.org/how-to-pay",
         },
-        endpoints: PAID_ENDPOINTS.map((ep) => ({
+        endpoints: endpoints.map((ep) => ({
           ...ep,
           url: `${config.publicBaseUrl}${ep.path}`,
         })),
+        passes: passes.map((pass) => ({
+          ...pass,
+          url: `${config.publicBaseUrl}${pass.path}`,
+          header: "X-Access-Pass",
+        })),
       };
     },
   );
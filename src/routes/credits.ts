@@ -0,0 +1,40 @@
+import type { FastifyInstance } from "fastify";
+
+import { resolveCreditWallet, type CreditStore } from "../lib/credits.js";
+import { sendError } from "../lib/errors.js";
+import { baseUnitsToUsdc } from "../lib/pricing.js";
+
+export async function registerCreditsRoute(app: FastifyInstance, credits: CreditStore): Promise<void> {
+  app.get(
+    "/credits",
+    {
+      schema: {
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              wallet: { type: "string" },
+              balanceUsdc: { type: "string" },
+            },
+            required: ["ok", "wallet", "balanceUsdc"],
+            additionalProperties: false,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const wallet = await resolveCreditWallet(credits, request.headers, request.method, "/credits");
+      if (!wallet) {
+        return sendError(reply, 401, "UNAUTHORIZED", "Credit token or wallet signature required");
+      }
+
+      reply.header("cache-control", "no-store");
+      return {
+        ok: true,
+        wallet,
+        balanceUsdc: baseUnitsToUsdc((await credits.balance(wallet)).toString()),
+      };
+    },
+  );
+}
@@ -2,33 +2,74 @@ import type { FastifyInstance } from "fastify";
 
 import type { AppConfig } from "../config.js";
 import { createIdempotencyPreHandler } from "../middleware/idempotency.js";
+import { describeRateLimits, type RateLimitController } from "../middleware/rateLimit.js";
+import type { CreditStore } from "../lib/credits.js";
 import { IdempotencyStore } from "../lib/idempotencyStore.js";
+import type { Ledger } from "../lib/ledger.js";
+import type { PricingRegistry } from "../lib/pricing.js";
+import type { PriceQuotes } from "../lib/quotes.js";
+import type { ReceiptSigner } from "../lib/receipts.js";
+import type { TransactionLookup } from "../lib/transactions.js";
+import type { WalletPolicy } from "../lib/walletPolicy.js";
+import { registerAdminRoutes } from "./admin.js";
 import { registerCatalogRoute } from "./catalog.js";
+import { registerCreditsRoute } from "./credits.js";
 import { registerHealthRoutes, type ReadyDependencies } from "./health.js";
 import { registerMetaRoutes } from "./meta.js";
-import { registerDnsRoute } from "./v1/dns.js";
-import { registerEchoRoute } from "./v1/echo.js";
-import { registerExtractRoute } from "./v1/extract.js";
-import { registerSentimentRoute } from "./v1/sentiment.js";
+import { registerQuoteRoute } from "./quotes.js";
+import { registerReceiptRoutes } from "./receipts.js";
+import {
+  buildRouteRateLimits,
+  registerPaidRoute,
+  toCatalogEntry,
+  toCatalogPass,
+  type PaidRouteDefinition,
+  type PaymentRequiredDescriber,
+} from "./paidRoute.js";
 
 export interface RegisterRoutesDeps {
   config: AppConfig;
+  paidRoutes: PaidRouteDefinition[];
+  pricing: PricingRegistry;
+  quotes: PriceQuotes;
+  describePayment: PaymentRequiredDescriber;
   ready: ReadyDependencies;
   idempotencyStore: IdempotencyStore;
+  rateLimit: RateLimitController;
+  ledger: Ledger;
+  walletPolicy?: WalletPolicy;
+  credits: CreditStore;
+  receiptSigner: ReceiptSigner;
+  lookupTransaction: TransactionLookup;
 }
 
 export async function registerRoutes(app: FastifyInstance, deps: RegisterRoutesDeps): Promise<void> {
   await registerHealthRoutes(app, deps.ready);
-  await registerMetaRoutes(app, deps.config);
-  await registerCatalogRoute(app, deps.config);
+  await registerMetaRoutes(app, deps.config, describeRateLimits(deps.config, buildRouteRateLimits(deps.paidRoutes)), deps.receiptSigner);
+  await registerAdminRoutes(app, deps.config, deps.ledger, deps.walletPolicy);
+  await registerCreditsRoute(app, deps.credits);
+  await registerReceiptRoutes(app, {
+    signer: deps.receiptSigner,
+    ledger: deps.ledger,
+    credits: deps.credits,
+    lookupTransaction: deps.lookupTransaction,
+  });
+  await registerQuoteRoute(app, deps.quotes, deps.pricing, deps.describePayment, deps.paidRoutes);
+  await registerCatalogRoute(
+    app,
+    deps.config,
+    deps.paidRoutes.map((route) => toCatalogEntry(route, deps.pricing.require(route.method, route.path), deps.config.acceptedNetworks)),
+    deps.paidRoutes.flatMap((route) => (route.passOffer ? [toCatalogPass(route, route.passOffer)] : [])),
+  );
 
   await app.register(
     async (v1) => {
       v1.addHook("preHandler", createIdempotencyPreHandler(deps.idempotencyStore));
-      await registerDnsRoute(v1, deps.config);
-      await registerEchoRoute(v1, deps.config);
-      await registerExtractRoute(v1, deps.config);
-      await registerSentimentRoute(v1, deps.config);
+      // After idempotency, so replays of completed requests are not limited.
+      v1.addHook("preHandler", deps.rateLimit.paidPreHandler);
+      for (const route of deps.paidRoutes) {
+        registerPaidRoute(v1, route, deps.config, deps.pricing);
+      }
     },
     { prefix: "/v1" },
   );
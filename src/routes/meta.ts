@@ -1,8 +1,15 @@
 import type { FastifyInstance } from "fastify";
 
 import type { AppConfig } from "../config.js";
+import { RECEIPT_TYPES, type ReceiptSigner } from "../lib/receipts.js";
+import type { RateLimitPolicy } from "../middleware/rateLimit.js";
 
-export async function registerMetaRoutes(app: FastifyInstance, config: AppConfig): Promise<void> {
+export async function registerMetaRoutes(
+  app: FastifyInstance,
+  config: AppConfig,
+  rateLimits: RateLimitPolicy[],
+  receiptSigner: ReceiptSigner,
+): Promise<void> {
   app.get(
     "/meta",
     {
@@ -15,20 +22,84 @@ export async function registerMetaRoutes(app: FastifyInstance, config: AppConfig
               service: { type: "string" },
               version: { type: "string" },
               chainId: { type: "number" },
+              network: { type: "string" },
+              testnet: { type: "boolean" },
               currency: { type: "string" },
               price: { type: "string" },
               receiver: { type: "string" },
               publicBaseUrl: { type: "string" },
+              rateLimits: {
+                type: "object",
+                properties: {
+                  algorithm: { type: "string" },
+                  headers: { type: "array", items: { type: "string" } },
+                  policies: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string" },
+                        appliesTo: { type: "string" },
+                        key: { type: "string" },
+                        limit: { type: "number" },
+                        windowSeconds: { type: "number" },
+                      },
+                      required: ["name", "appliesTo", "key", "limit", "windowSeconds"],
+                      additionalProperties: false,
+                    },
+                  },
+                  dailySpendCapUsdc: { type: "string" },
+                },
+                required: ["algorithm", "headers", "policies"],
+                additionalProperties: false,
+              },
+              receipts: {
+                type: "object",
+                properties: {
+                  scheme: { type: "string" },
+                  signer: { type: "string" },
+                  verifyUrl: { type: "string" },
+                  primaryType: { type: "string" },
+                  domain: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                      version: { type: "string" },
+                      chainId: { type: "number" },
+                    },
+                    required: ["name", "version", "chainId"],
+                    additionalProperties: false,
+                  },
+                  types: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string" },
+                        type: { type: "string" },
+                      },
+                      required: ["name", "type"],
+                      additionalProperties: false,
+                    },
+                  },
+                },
+                required: ["scheme", "signer", "verifyUrl", "primaryType", "domain", "types"],
+                additionalProperties: false,
+              },
             },
             required: [
               "ok",
               "service",
               "version",
               "chainId",
+              "network",
+              "testnet",
               "currency",
               "price",
               "receiver",
               "publicBaseUrl",
+              "rateLimits",
+              "receipts",
             ],
             additionalProperties: false,
           },
@@ -42,11 +113,28 @@ export async function registerMetaRoutes(app: FastifyInstance, config: AppConfig
         ok: true,
         service: config.serviceName,
         version: config.version,
-        chainId: config.chainId,
+        chainId: config.network.chainId,
+        network: config.network.network,
+        testnet: config.network.testnet,
         currency: "USDC",
         price: config.priceUsdc,
-        receiver: config.receiverAddress,
+        receiver: config.network.receiverAddress,
         publicBaseUrl: config.publicBaseUrl,
+        rateLimits: {
+          algorithm: "sliding_window",
+          headers: ["RateLimit-Limit", "RateLimit-Remaining", "RateLimit-Reset", "RateLimit-Policy", "Retry-After"],
+          policies: rateLimits,
+          ...(config.spendCapDailyUsdc ? { dailySpendCapUsdc: config.spendCapDailyUsdc } : {}),
+        },
+        // Everything a buyer needs to check a receipt's proof offline with any EIP-712 library.
+        receipts: {
+          scheme: "eip712",
+          signer: receiptSigner.address,
+          verifyUrl: `${config.publicBaseUrl}/receipts/verify`,
+          primaryType: "Receipt",
+          domain: receiptSigner.domain,
+          types: RECEIPT_TYPES.Receipt,
+        },
       };
     },
   );
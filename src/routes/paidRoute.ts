@@ -0,0 +1,441 @@
+import type { PaymentOption } from "@x402/core/http";
+import type { RouteConfig, RoutesConfig } from "@x402/core/server";
+import type { PaymentRequirements } from "@x402/core/types";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+
+import type { AppConfig, NetworkConfig } from "../config.js";
+import type { CreditDebit } from "../lib/credits.js";
+import type { PassOffer, PassUsage } from "../lib/passes.js";
+import { QUOTE_HEADER, type PriceQuotes } from "../lib/quotes.js";
+import type { ReceiptProof } from "../lib/receipts.js";
+import { splitRevenue, type RevenueShare } from "../lib/revenue.js";
+import { routeKey, type PriceSpec, type PricingRegistry, type RoutePrice, type RoutePricing } from "../lib/pricing.js";
+import { applyRawPaymentContext } from "../middleware/requestContext.js";
+import type { SettlementPolicy } from "../middleware/settlement.js";
+import type { CatalogPass, EndpointEntry } from "./catalog.js";
+
+export interface DataSchema {
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+export interface PaidRouteDocs {
+  body?: Record<string, string>;
+  data: Record<string, string>;
+}
+
+export interface PaidRouteInput<TBody = unknown, TData extends object = object> {
+  name: string;
+  description: string;
+  price: PriceSpec<TBody>;
+  bodySchema: Record<string, unknown>;
+  dataSchema: DataSchema;
+  docs: PaidRouteDocs;
+  // Defaults to "on_success": callers are only charged for responses below 400.
+  settlement?: SettlementPolicy;
+  // Defaults to true: callers may pay from a prepaid credit balance instead of per-request x402.
+  acceptsCredits?: boolean;
+  // Set on routes that sell an access pass; lists the offer in /catalog.
+  passOffer?: PassOffer;
+  // Calls per minute for each payer (or client IP for dev bypass calls), on top of the wallet limit.
+  rateLimitPerMin?: number;
+  handler(request: FastifyRequest<{ Body: TBody }>): Promise<TData> | TData;
+}
+
+export interface PaidRouteDefinition<TBody = unknown, TData extends object = object>
+  extends PaidRouteInput<TBody, TData> {
+  method: string;
+  path: string;
+}
+
+// Added to every 402 from the payment gate next to the { ok: false, error } envelope, so clients can
+// pay from the body alone.
+export interface PaymentRequiredDetails {
+  x402Version: number;
+  accepts: PaymentRequirements[];
+  price: { usdc: string; description: string };
+  endpoint: EndpointEntry;
+  catalogUrl: string;
+}
+
+// Describes the list price for the body unless `price` (e.g. a quoted one) is given.
+export type PaymentRequiredDescriber = (
+  method: string,
+  path: string,
+  body: unknown,
+  price?: RoutePrice,
+) => PaymentRequiredDetails | undefined;
+
+export interface Receipt {
+  chainId: number;
+  network: string;
+  asset: string;
+  currency: string;
+  amount: string;
+  receiver: string;
+  txHash: string;
+  payer: string;
+  idempotencyKey: string;
+  credits?: CreditDebit;
+  pass?: PassUsage;
+  // Set when the request presented a quote id from POST /quote.
+  quoteId?: string;
+  // Set on routes with REVENUE_SPLITS: the primary receiver first, then each partner.
+  splits?: RevenueShare[];
+  // Added by the receipt signing hook once the payment has settled.
+  proof?: ReceiptProof;
+  statusUrl?: string;
+  statusToken?: string;
+}
+
+const IDEMPOTENCY_HEADER_SCHEMA = {
+  type: "object",
+  properties: {
+    "idempotency-key": { type: "string", minLength: 1 },
+  },
+  required: ["idempotency-key"],
+};
+
+const RECEIPT_SCHEMA = {
+  type: "object",
+  properties: {
+    chainId: { type: "number" },
+    network: { type: "string" },
+    asset: { type: "string" },
+    currency: { type: "string" },
+    amount: { type: "string" },
+    receiver: { type: "string" },
+    txHash: { type: "string" },
+    payer: { type: "string" },
+    idempotencyKey: { type: "string" },
+    credits: {
+      type: "object",
+      properties: {
+        debitedUsdc: { type: "string" },
+        balanceUsdc: { type: "string" },
+      },
+      required: ["debitedUsdc", "balanceUsdc"],
+    },
+    pass: {
+      type: "object",
+      properties: {
+        passId: { type: "string" },
+        offer: { type: "string" },
+        expiresAt: { type: "string" },
+        callsUsed: { type: "number" },
+        callsRemaining: { type: "number" },
+      },
+      required: ["passId", "offer", "expiresAt", "callsUsed"],
+    },
+    proof: {
+      type: "object",
+      properties: {
+        scheme: { type: "string" },
+        signer: { type: "string" },
+        requestId: { type: "string" },
+        route: { type: "string" },
+        dataHash: { type: "string" },
+        issuedAt: { type: "number" },
+        signature: { type: "string" },
+      },
+      required: ["scheme", "signer", "requestId", "route", "dataHash", "issuedAt", "signature"],
+    },
+    quoteId: { type: "string" },
+    splits: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          receiver: { type: "string" },
+          percent: { type: "number" },
+          amount: { type: "string" },
+        },
+        required: ["receiver", "percent", "amount"],
+      },
+    },
+    statusUrl: { type: "string" },
+    statusToken: { type: "string" },
+  },
+  required: ["chainId", "network", "asset", "currency", "amount", "receiver", "txHash", "payer", "idempotencyKey"],
+};
+
+const REQUIRED_HEADER_DOCS = {
+  "Idempotency-Key": "Unique key per request (UUID recommended)",
+  "X-PAYMENT": "x402 payment header (auto-added by compliant x402 clients)",
+};
+
+const QUOTE_HEADER_DOCS = {
+  "X-Quote-Id": "Optional: quote id from POST /quote; the route charges the quoted amount until it expires",
+};
+
+const CREDIT_HEADER_DOCS = {
+  "X-Credit-Token": "Alternative to X-PAYMENT: token from /v1/credits/topup, spends the prepaid credit balance",
+};
+
+export function definePaidRoute<TBody, TData extends object>(
+  input: PaidRouteInput<TBody, TData>,
+): PaidRouteDefinition<TBody, TData> {
+  return {
+    ...input,
+    method: "POST",
+    path: `/v1/${input.name}`,
+  };
+}
+
+// Records the payment option the payer actually used; dev bypass falls back to the primary network.
+export function buildReceipt(request: FastifyRequest, config: AppConfig, price: RoutePrice): Receipt {
+  const context = request.requestContext;
+  // Calls covered by an access pass were paid for when the pass was bought.
+  const amount = context.paidMode === "pass" ? "0" : price.priceUsdc;
+  const receiver = context.receiver ?? config.network.receiverAddress;
+  const splits = splitRevenue(
+    config.revenueSplits[routeKey(request.method, request.routeOptions.url ?? request.url)],
+    amount,
+    receiver,
+  );
+  return {
+    chainId: context.chainId ?? config.network.chainId,
+    network: context.network ?? config.network.network,
+    asset: context.asset ?? config.network.usdcContract,
+    currency: "USDC",
+    amount,
+    receiver,
+    txHash: request.requestContext.txHash ?? "",
+    payer: request.requestContext.wallet ?? "",
+    idempotencyKey: request.requestContext.idempotencyKey ?? "",
+    ...(context.quote ? { quoteId: context.quote.id } : {}),
+    ...(splits.length > 0 ? { splits } : {}),
+  };
+}
+
+export function registerPaidRoute(
+  app: FastifyInstance,
+  route: PaidRouteDefinition,
+  config: AppConfig,
+  pricing: PricingRegistry,
+): void {
+  app.post<{ Body: unknown }>(
+    `/${route.name}`,
+    {
+      ...(route.settlement === "upfront" ? { preHandler: app.settleUpfront } : {}),
+      schema: {
+        headers: IDEMPOTENCY_HEADER_SCHEMA,
+        body: route.bodySchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              data: {
+                type: "object",
+                properties: {
+                  ...route.dataSchema.properties,
+                  request_id: { type: "string" },
+                },
+                required: [...(route.dataSchema.required ?? []), "request_id"],
+              },
+              receipt: RECEIPT_SCHEMA,
+            },
+            required: ["ok", "data", "receipt"],
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      applyRawPaymentContext(request);
+
+      const data = await route.handler(request);
+
+      reply.header("cache-control", "no-store");
+
+      return {
+        ok: true,
+        data: {
+          ...data,
+          request_id: request.requestContext.requestId,
+        },
+        receipt: buildReceipt(
+          request,
+          config,
+          request.requestContext.quote ?? pricing.quote(route.method, route.path, request.body),
+        ),
+      };
+    },
+  );
+}
+
+// The payment gate has already redeemed any quote id before x402 runs, so only its binding is checked here.
+function quotedPrice(
+  route: PaidRouteDefinition,
+  pricing: PricingRegistry,
+  quotes: PriceQuotes | undefined,
+  quoteId: string | undefined,
+  body: unknown,
+): RoutePrice {
+  const quote = quotes && quoteId ? quotes.read(quoteId, route.method, route.path, body) : undefined;
+  return quote ?? pricing.quote(route.method, route.path, body);
+}
+
+function toPaymentOption(
+  route: PaidRouteDefinition,
+  network: NetworkConfig,
+  pricing: PricingRegistry,
+  quotes?: PriceQuotes,
+): PaymentOption {
+  return {
+    scheme: "exact",
+    network: network.network,
+    payTo: network.receiverAddress,
+    price: (context) => ({
+      asset: network.usdcContract,
+      amount: quotedPrice(route, pricing, quotes, context.adapter.getHeader?.(QUOTE_HEADER), context.adapter.getBody?.())
+        .priceBaseUnits,
+      extra: {
+        name: network.usdcName,
+        version: network.usdcVersion,
+      },
+    }),
+  };
+}
+
+// Mirrors the requirements the x402 resource server derives from toPaymentOption, for 402s that are
+// sent before it runs (dev bypass and malformed payment headers).
+const MAX_TIMEOUT_SECONDS = 300;
+
+function toPaymentRequirements(network: NetworkConfig, price: RoutePrice): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: network.network,
+    amount: price.priceBaseUnits,
+    asset: network.usdcContract,
+    payTo: network.receiverAddress,
+    maxTimeoutSeconds: MAX_TIMEOUT_SECONDS,
+    extra: {
+      name: network.usdcName,
+      version: network.usdcVersion,
+    },
+  };
+}
+
+function describePrice(pricing: RoutePricing, price: RoutePrice): string {
+  if (!pricing.perUnitUsdc || !pricing.unit) return `${price.priceUsdc} USDC per request`;
+  return `${price.priceUsdc} USDC for this request (${pricing.baseUsdc} USDC plus ${pricing.perUnitUsdc} USDC per ${pricing.unit})`;
+}
+
+export function createPaymentRequiredDescriber(
+  routes: PaidRouteDefinition[],
+  config: AppConfig,
+  pricing: PricingRegistry,
+): PaymentRequiredDescriber {
+  const endpoints = new Map(
+    routes.map((route) => [
+      routeKey(route.method, route.path),
+      toCatalogEntry(route, pricing.require(route.method, route.path), config.acceptedNetworks),
+    ]),
+  );
+
+  return (method, path, body, quoted) => {
+    const endpoint = endpoints.get(routeKey(method, path));
+    if (!endpoint) return undefined;
+
+    const price = quoted ?? pricing.quote(method, path, body);
+    return {
+      x402Version: 2,
+      accepts: config.acceptedNetworks.map((network) => toPaymentRequirements(network, price)),
+      price: { usdc: price.priceUsdc, description: describePrice(pricing.require(method, path), price) },
+      endpoint,
+      catalogUrl: `${config.publicBaseUrl}/catalog`,
+    };
+  };
+}
+
+export function toRouteConfig(
+  route: PaidRouteDefinition,
+  config: AppConfig,
+  pricing: PricingRegistry,
+  quotes?: PriceQuotes,
+): RouteConfig {
+  return {
+    accepts: config.acceptedNetworks.map((network) => toPaymentOption(route, network, pricing, quotes)),
+    description: route.description,
+    mimeType: "application/json",
+  };
+}
+
+export function buildSettlementPolicies(routes: PaidRouteDefinition[]): Map<string, SettlementPolicy> {
+  return new Map(routes.map((route) => [routeKey(route.method, route.path), route.settlement ?? "on_success"]));
+}
+
+export function buildCreditRoutes(routes: PaidRouteDefinition[]): Set<string> {
+  return new Set(routes.filter((route) => route.acceptsCredits !== false).map((route) => routeKey(route.method, route.path)));
+}
+
+export function buildRouteRateLimits(routes: PaidRouteDefinition[]): Map<string, number> {
+  return new Map(
+    routes.flatMap((route) => (route.rateLimitPerMin ? [[routeKey(route.method, route.path), route.rateLimitPerMin] as const] : [])),
+  );
+}
+
+export function buildRoutesConfig(
+  routes: PaidRouteDefinition[],
+  config: AppConfig,
+  pricing: PricingRegistry,
+  quotes?: PriceQuotes,
+): RoutesConfig {
+  const routesConfig: Record<string, RouteConfig> = {};
+  for (const route of routes) {
+    routesConfig[routeKey(route.method, route.path)] = toRouteConfig(route, config, pricing, quotes);
+  }
+  return routesConfig;
+}
+
+export function toCatalogEntry(
+  route: PaidRouteDefinition,
+  pricing: RoutePricing,
+  networks: NetworkConfig[],
+): EndpointEntry {
+  const response: Record<string, string> = {};
+  for (const [field, description] of Object.entries(route.docs.data)) {
+    response[`data.${field}`] = description;
+  }
+  response["data.request_id"] = "Server-assigned request ID";
+  response["receipt.*"] = "Payment receipt with chainId, network, asset, txHash, payer, receiver, amount";
+  response["receipt.proof"] = "EIP-712 signature over the receipt and a hash of data; check it with POST /receipts/verify";
+  response["receipt.statusUrl"] = "GET it with X-Receipt-Token: <receipt.statusToken> for the settlement status and block";
+
+  return {
+    method: route.method,
+    path: route.path,
+    description: route.description,
+    priceUsdc: pricing.baseUsdc,
+    pricePerUnitUsdc: pricing.perUnitUsdc,
+    priceUnit: pricing.unit,
+    accepts: networks.map((network) => ({
+      scheme: "exact",
+      network: network.network,
+      chainId: network.chainId,
+      asset: network.usdcContract,
+      payTo: network.receiverAddress,
+    })),
+    requiredHeaders: {
+      ...REQUIRED_HEADER_DOCS,
+      ...(route.acceptsCredits === false ? {} : CREDIT_HEADER_DOCS),
+      ...QUOTE_HEADER_DOCS,
+    },
+    body: route.docs.body,
+    response,
+  };
+}
+
+export function toCatalogPass(route: PaidRouteDefinition, offer: PassOffer): CatalogPass {
+  return {
+    id: offer.id,
+    description: offer.description,
+    method: route.method,
+    path: route.path,
+    priceUsdc: offer.priceUsdc,
+    covers: offer.routes,
+    durationSeconds: offer.durationSeconds,
+    maxCalls: offer.maxCalls,
+  };
+}
@@ -0,0 +1,120 @@
+import type { FastifyInstance } from "fastify";
+
+import { sendError } from "../lib/errors.js";
+import type { PriceQuotes } from "../lib/quotes.js";
+import { routeKey, type PricingRegistry } from "../lib/pricing.js";
+import type { PaidRouteDefinition, PaymentRequiredDescriber } from "./paidRoute.js";
+
+interface QuoteBody {
+  method?: string;
+  path: string;
+  body?: unknown;
+}
+
+const PAYMENT_REQUIREMENTS_SCHEMA = {
+  type: "object",
+  properties: {
+    scheme: { type: "string" },
+    network: { type: "string" },
+    amount: { type: "string" },
+    asset: { type: "string" },
+    payTo: { type: "string" },
+    maxTimeoutSeconds: { type: "number" },
+    extra: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        version: { type: "string" },
+      },
+    },
+  },
+  required: ["scheme", "network", "amount", "asset", "payTo", "maxTimeoutSeconds"],
+};
+
+export async function registerQuoteRoute(
+  app: FastifyInstance,
+  quotes: PriceQuotes,
+  pricing: PricingRegistry,
+  describePayment: PaymentRequiredDescriber,
+  paidRoutes: PaidRouteDefinition[],
+): Promise<void> {
+  const bodySchemas = new Map(paidRoutes.map((route) => [routeKey(route.method, route.path), route.bodySchema]));
+
+  app.post<{ Body: QuoteBody }>(
+    "/quote",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            method: { type: "string", minLength: 1 },
+            path: { type: "string", minLength: 1 },
+            body: {},
+          },
+          required: ["path"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              quoteId: { type: "string" },
+              route: { type: "string" },
+              expiresAt: { type: "string" },
+              price: {
+                type: "object",
+                properties: {
+                  usdc: { type: "string" },
+                  baseUnits: { type: "string" },
+                  description: { type: "string" },
+                },
+                required: ["usdc", "baseUnits", "description"],
+              },
+              x402Version: { type: "number" },
+              accepts: { type: "array", items: PAYMENT_REQUIREMENTS_SCHEMA },
+            },
+            required: ["ok", "quoteId", "route", "expiresAt", "price", "x402Version", "accepts"],
+            additionalProperties: false,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const method = (request.body.method ?? "POST").toUpperCase();
+      const { path } = request.body;
+      const key = routeKey(method, path);
+      const bodySchema = bodySchemas.get(key);
+      if (!pricing.get(method, path) || !bodySchema) {
+        return sendError(reply, 404, "QUOTE_INVALID", `${key} is not a paid route`);
+      }
+
+      // The paid request is redeemed against its validated body, so the quote hashes and prices the body
+      // after the same defaults, stripping and coercion.
+      const body = structuredClone(request.body.body ?? {});
+      if (!request.compileValidationSchema(bodySchema, "body")(body)) {
+        return sendError(reply, 400, "QUOTE_INVALID", `Body is not valid for ${key}`);
+      }
+
+      let issued: ReturnType<PriceQuotes["issue"]>;
+      try {
+        issued = quotes.issue(method, path, body);
+      } catch {
+        // Usage-priced routes count units from the body, which fails on bodies the route would reject anyway.
+        return sendError(reply, 400, "QUOTE_INVALID", `Cannot price this body for ${key}`);
+      }
+
+      const { quoteId, claims } = issued;
+      const details = describePayment(method, path, body, claims);
+      reply.header("cache-control", "no-store");
+      return {
+        ok: true,
+        quoteId,
+        route: claims.route,
+        expiresAt: new Date(claims.expiresAt * 1000).toISOString(),
+        price: { usdc: claims.priceUsdc, baseUnits: claims.priceBaseUnits, description: details?.price.description ?? "" },
+        x402Version: details?.x402Version ?? 2,
+        accepts: details?.accepts ?? [],
+      };
+    },
+  );
+}
@@ -0,0 +1,192 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+
+import { resolveCreditWallet, type CreditStore } from "../lib/credits.js";
+import { sendError } from "../lib/errors.js";
+import type { Ledger, LedgerEntry } from "../lib/ledger.js";
+import { RECEIPT_LOOKUP_PREFIX } from "../lib/pricing.js";
+import type { ReceiptProof, ReceiptSigner, SignableReceipt } from "../lib/receipts.js";
+import type { TransactionLookup } from "../lib/transactions.js";
+
+export const RECEIPT_TOKEN_HEADER = "x-receipt-token";
+
+export interface ReceiptRoutesDeps {
+  signer: ReceiptSigner;
+  ledger: Ledger;
+  credits: CreditStore;
+  lookupTransaction: TransactionLookup;
+}
+
+interface VerifyBody {
+  receipt: SignableReceipt & { proof?: ReceiptProof };
+  data?: Record<string, unknown>;
+}
+
+const PROOF_SCHEMA = {
+  type: "object",
+  properties: {
+    scheme: { type: "string" },
+    signer: { type: "string" },
+    requestId: { type: "string" },
+    route: { type: "string" },
+    dataHash: { type: "string" },
+    issuedAt: { type: "integer", minimum: 0 },
+    signature: { type: "string" },
+  },
+  required: ["scheme", "signer", "requestId", "route", "dataHash", "issuedAt", "signature"],
+};
+
+type ReceiptStatus = LedgerEntry["outcome"] | "confirmed" | "reverted";
+
+interface ReceiptStatusBody {
+  status: ReceiptStatus;
+  blockNumber?: number;
+}
+
+// Ledger outcomes are final except "settled" with a tx hash, which becomes "confirmed" or "reverted"
+// once the transaction is in a block. RPC failures leave it at "settled" rather than failing the lookup.
+async function resolveStatus(
+  request: FastifyRequest,
+  entry: LedgerEntry,
+  lookupTransaction: TransactionLookup,
+): Promise<ReceiptStatusBody> {
+  if (entry.outcome !== "settled" || !entry.txHash) return { status: entry.outcome };
+  try {
+    const transaction = await lookupTransaction(entry.network, entry.txHash);
+    if (!transaction) return { status: "settled" };
+    return {
+      status: transaction.status === "success" ? "confirmed" : "reverted",
+      blockNumber: Number(transaction.blockNumber),
+    };
+  } catch (error) {
+    request.log.warn({ err: error, request_id: entry.requestId, tx_hash: entry.txHash }, "receipt_tx_lookup_failed");
+    return { status: "settled" };
+  }
+}
+
+type ReceiptCaller = { token: string } | { wallet: string };
+
+// Either the opaque token returned with the receipt, or the payer's own credentials: a credit token or
+// a wallet signature over creditAuthMessage for this GET path.
+async function resolveCaller(request: FastifyRequest, credits: CreditStore): Promise<ReceiptCaller | undefined> {
+  const token = request.headers[RECEIPT_TOKEN_HEADER];
+  if (typeof token === "string") return { token };
+
+  const wallet = await resolveCreditWallet(credits, request.headers, request.method, request.url.split("?")[0] ?? "");
+  return wallet ? { wallet } : undefined;
+}
+
+function canRead(caller: ReceiptCaller, entry: LedgerEntry, signer: ReceiptSigner): boolean {
+  if ("token" in caller) return signer.checkStatusToken(entry, caller.token);
+  return entry.payer !== "" && caller.wallet.toLowerCase() === entry.payer.toLowerCase();
+}
+
+export async function registerReceiptRoutes(app: FastifyInstance, deps: ReceiptRoutesDeps): Promise<void> {
+  const { signer } = deps;
+
+  app.post<{ Body: VerifyBody }>(
+    "/receipts/verify",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            receipt: {
+              type: "object",
+              properties: {
+                chainId: { type: "integer", minimum: 0 },
+                network: { type: "string" },
+                asset: { type: "string" },
+                amount: { type: "string" },
+                receiver: { type: "string" },
+                txHash: { type: "string" },
+                payer: { type: "string" },
+                idempotencyKey: { type: "string" },
+                proof: PROOF_SCHEMA,
+              },
+              required: ["chainId", "network", "asset", "amount", "receiver", "txHash", "payer", "idempotencyKey"],
+            },
+            data: { type: "object" },
+          },
+          required: ["receipt"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              valid: { type: "boolean" },
+              signer: { type: "string" },
+              reason: { type: "string" },
+            },
+            required: ["ok", "valid", "signer"],
+            additionalProperties: false,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      reply.header("cache-control", "no-store");
+      return { ok: true, ...(await signer.verify(request.body.receipt, request.body.data)) };
+    },
+  );
+
+  app.get<{ Params: { requestId: string } }>(
+    `${RECEIPT_LOOKUP_PREFIX}:requestId`,
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { requestId: { type: "string", minLength: 1, maxLength: 200 } },
+          required: ["requestId"],
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              ok: { type: "boolean" },
+              requestId: { type: "string" },
+              createdAt: { type: "string" },
+              route: { type: "string" },
+              paidMode: { type: "string" },
+              payer: { type: "string" },
+              amount: { type: "string" },
+              network: { type: "string" },
+              status: { type: "string" },
+              txHash: { type: "string" },
+              blockNumber: { type: "number" },
+            },
+            required: ["ok", "requestId", "createdAt", "route", "paidMode", "payer", "amount", "network", "status", "txHash"],
+            additionalProperties: false,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { requestId } = request.params;
+      const caller = await resolveCaller(request, deps.credits);
+      if (!caller) {
+        return sendError(reply, 401, "UNAUTHORIZED", "Receipt token or payer signature required");
+      }
+
+      const entry = await deps.ledger.get(requestId);
+      // Unknown ids and receipts the caller may not see get the same answer.
+      if (!entry || !canRead(caller, entry, signer)) {
+        return sendError(reply, 404, "RECEIPT_NOT_FOUND", `No receipt ${requestId} for these credentials`);
+      }
+
+      reply.header("cache-control", "no-store");
+      return {
+        ok: true,
+        requestId: entry.requestId,
+        createdAt: entry.createdAt,
+        route: entry.route,
+        paidMode: entry.paidMode,
+        payer: entry.payer,
+        amount: entry.amount,
+        network: entry.network,
+        txHash: entry.txHash,
+        ...(await resolveStatus(request, entry, deps.lookupTransaction)),
+      };
+    },
+  );
+}
@@ -0,0 +1,71 @@
+import { AppError } from "../../lib/errors.js";
+import { baseUnitsToUsdc, usdcToBaseUnits } from "../../lib/pricing.js";
+import { definePaidRoute } from "../paidRoute.js";
+
+interface TopupBody {
+  amountUsdc: string;
+}
+
+interface TopupData {
+  wallet: string;
+  creditedUsdc: string;
+  balanceUsdc: string;
+  token: string;
+}
+
+export const creditsTopupRoute = definePaidRoute<TopupBody, TopupData>({
+  name: "credits/topup",
+  description: "Prepay a USDC credit balance with one x402 payment and receive a credit token for later calls",
+  price: {
+    baseUsdc: "0",
+    perUnitUsdc: "0.01",
+    unit: "cent of credit",
+    countUnits: (body) => Number(usdcToBaseUnits(body.amountUsdc)) / 10_000,
+  },
+  // Settled before the handler so credit is never granted for a payment that did not land.
+  settlement: "upfront",
+  acceptsCredits: false,
+  bodySchema: {
+    type: "object",
+    properties: {
+      amountUsdc: { type: "string", pattern: "^(?!0+(?:\\.0+)?$)\\d{1,4}(?:\\.\\d{1,2})?$" },
+    },
+    required: ["amountUsdc"],
+    additionalProperties: false,
+  },
+  dataSchema: {
+    properties: {
+      wallet: { type: "string" },
+      creditedUsdc: { type: "string" },
+      balanceUsdc: { type: "string" },
+      token: { type: "string" },
+    },
+    required: ["wallet", "creditedUsdc", "balanceUsdc", "token"],
+  },
+  docs: {
+    body: {
+      amountUsdc: "string (required) — credit to buy, 0.01 to 9999.99 USDC",
+    },
+    data: {
+      wallet: "Wallet the credit belongs to (the payer)",
+      creditedUsdc: "Credit added by this top-up",
+      balanceUsdc: "Credit balance after the top-up",
+      token: "Send as X-Credit-Token to spend the balance",
+    },
+  },
+  handler: async (request) => {
+    const context = request.requestContext;
+    if (context.paidMode !== "x402" || context.settlement !== "settled" || !context.wallet || !context.amount) {
+      throw new AppError(400, "PAYMENT_INVALID", "Credit top-ups must be paid with a settled x402 payment");
+    }
+
+    const credits = request.server.credits;
+    const balance = await credits.credit(context.wallet, BigInt(usdcToBaseUnits(context.amount)));
+    return {
+      wallet: context.wallet,
+      creditedUsdc: context.amount,
+      balanceUsdc: baseUnitsToUsdc(balance.toString()),
+      token: await credits.issueToken(context.wallet),
+    };
+  },
+});
@@ -1,173 +1,115 @@
-import type { FastifyInstance } from "fastify";
-
-import type { AppConfig } from "../../config.js";
 import {
-  DNS_ROUTE_PRICE_USDC,
   SUPPORTED_DNS_RECORD_TYPES,
   lookupDomainIntelligence,
   type DnsRecordType,
+  type DomainIntelligenceResult,
 } from "../../lib/dnsLookup.js";
-import { getRawPaymentContext } from "../../middleware/requirePayment.js";
+import { definePaidRoute } from "../paidRoute.js";
 
 interface DnsBody {
   domain: string;
   records: DnsRecordType[];
 }
 
-export async function registerDnsRoute(app: FastifyInstance, config: AppConfig): Promise<void> {
-  app.post<{ Body: DnsBody }>(
-    "/dns",
-    {
-      schema: {
-        headers: {
-          type: "object",
-          properties: {
-            "idempotency-key": { type: "string", minLength: 1 },
-          },
-          required: ["idempotency-key"],
+export const dnsRoute = definePaidRoute<DnsBody, DomainIntelligenceResult>({
+  name: "dns",
+  description: "Resolve DNS records and inspect TLS certificate metadata for a hostname",
+  // Each call fans out to resolvers and a TLS handshake.
+  rateLimitPerMin: 30,
+  price: {
+    baseUsdc: "0.001",
+    perUnitUsdc: "0.001",
+    unit: "record type",
+    countUnits: (body) => body.records.length,
+  },
+  bodySchema: {
+    type: "object",
+    properties: {
+      domain: { type: "string", minLength: 1 },
+      records: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: [...SUPPORTED_DNS_RECORD_TYPES],
         },
-        body: {
-          type: "object",
-          properties: {
-            domain: { type: "string", minLength: 1 },
-            records: {
-              type: "array",
-              items: {
-                type: "string",
-                enum: [...SUPPORTED_DNS_RECORD_TYPES],
+        minItems: 1,
+        uniqueItems: true,
+      },
+    },
+    required: ["domain", "records"],
+    additionalProperties: false,
+  },
+  dataSchema: {
+    properties: {
+      domain: { type: "string" },
+      records: {
+        type: "object",
+        properties: {
+          A: { type: "array", items: { type: "string" } },
+          AAAA: { type: "array", items: { type: "string" } },
+          CNAME: { type: "array", items: { type: "string" } },
+          MX: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                priority: { type: "number" },
+                exchange: { type: "string" },
               },
-              minItems: 1,
-              uniqueItems: true,
+              required: ["priority", "exchange"],
             },
           },
-          required: ["domain", "records"],
-          additionalProperties: false,
-        },
-        response: {
-          200: {
-            type: "object",
-            properties: {
-              ok: { type: "boolean" },
-              data: {
-                type: "object",
-                properties: {
-                  domain: { type: "string" },
-                  records: {
-                    type: "object",
-                    properties: {
-                      A: { type: "array", items: { type: "string" } },
-                      AAAA: { type: "array", items: { type: "string" } },
-                      CNAME: { type: "array", items: { type: "string" } },
-                      MX: {
-                        type: "array",
-                        items: {
-                          type: "object",
-                          properties: {
-                            priority: { type: "number" },
-                            exchange: { type: "string" },
-                          },
-                          required: ["priority", "exchange"],
-                        },
-                      },
-                      TXT: { type: "array", items: { type: "string" } },
-                      NS: { type: "array", items: { type: "string" } },
-                      SOA: {
-                        anyOf: [
-                          {
-                            type: "object",
-                            properties: {
-                              nsname: { type: "string" },
-                              hostmaster: { type: "string" },
-                              serial: { type: "number" },
-                              refresh: { type: "number" },
-                              retry: { type: "number" },
-                              expire: { type: "number" },
-                              minttl: { type: "number" },
-                            },
-                            required: ["nsname", "hostmaster", "serial", "refresh", "retry", "expire", "minttl"],
-                          },
-                          { type: "null" },
-                        ],
-                      },
-                    },
-                    additionalProperties: false,
-                  },
-                  ssl: {
-                    anyOf: [
-                      {
-                        type: "object",
-                        properties: {
-                          issuer: { type: "string" },
-                          validFrom: { type: "string" },
-                          validTo: { type: "string" },
-                          daysRemaining: { type: "number" },
-                        },
-                        required: ["issuer", "validFrom", "validTo", "daysRemaining"],
-                      },
-                      { type: "null" },
-                    ],
-                  },
-                  request_id: { type: "string" },
-                },
-                required: ["domain", "records", "ssl", "request_id"],
-              },
-              receipt: {
+          TXT: { type: "array", items: { type: "string" } },
+          NS: { type: "array", items: { type: "string" } },
+          SOA: {
+            anyOf: [
+              {
                 type: "object",
                 properties: {
-                  chainId: { type: "number" },
-                  currency: { type: "string" },
-                  amount: { type: "string" },
-                  receiver: { type: "string" },
-                  txHash: { type: "string" },
-                  payer: { type: "string" },
-                  idempotencyKey: { type: "string" },
+                  nsname: { type: "string" },
+                  hostmaster: { type: "string" },
+                  serial: { type: "number" },
+                  refresh: { type: "number" },
+                  retry: { type: "number" },
+                  expire: { type: "number" },
+                  minttl: { type: "number" },
                 },
-                required: [
-                  "chainId",
-                  "currency",
-                  "amount",
-                  "receiver",
-                  "txHash",
-                  "payer",
-                  "idempotencyKey",
-                ],
+                required: ["nsname", "hostmaster", "serial", "refresh", "retry", "expire", "minttl"],
               },
-            },
-            required: ["ok", "data", "receipt"],
+              { type: "null" },
+            ],
           },
         },
+        additionalProperties: false,
+      },
+      ssl: {
+        anyOf: [
+          {
+            type: "object",
+            properties: {
+              issuer: { type: "string" },
+              validFrom: { type: "string" },
+              validTo: { type: "string" },
+              daysRemaining: { type: "number" },
+            },
+            required: ["issuer", "validFrom", "validTo", "daysRemaining"],
+          },
+          { type: "null" },
+        ],
       },
     },
-    async (request, reply) => {
-      const rawPaymentContext = getRawPaymentContext(request.raw);
-      if (rawPaymentContext) {
-        request.requestContext.paid = rawPaymentContext.paid;
-        request.requestContext.paidMode = rawPaymentContext.paidMode;
-        request.requestContext.amount = rawPaymentContext.amount;
-        request.requestContext.wallet = rawPaymentContext.wallet;
-        request.requestContext.receiver = rawPaymentContext.receiver;
-      }
-
-      const result = await lookupDomainIntelligence(request.body.domain, request.body.records);
-
-      reply.header("cache-control", "no-store");
-
-      return {
-        ok: true,
-        data: {
-          ...result,
-          request_id: request.requestContext.requestId,
-        },
-        receipt: {
-          chainId: config.chainId,
-          currency: "USDC",
-          amount: DNS_ROUTE_PRICE_USDC,
-          receiver: config.receiverAddress,
-          txHash: request.requestContext.txHash ?? "",
-          payer: request.requestContext.wallet ?? "",
-          idempotencyKey: request.requestContext.idempotencyKey ?? "",
-        },
-      };
+    required: ["domain", "records", "ssl"],
+  },
+  docs: {
+    body: {
+      domain: "string (required) — hostname to inspect",
+      records: "array (required) — any of A, AAAA, CNAME, MX, TXT, NS, SOA",
     },
-  );
-}
+    data: {
+      domain: "Normalized hostname",
+      records: "Requested DNS record sets keyed by record type",
+      ssl: "TLS certificate summary or null when unavailable",
+    },
+  },
+  handler: (request) => lookupDomainIntelligence(request.body.domain, request.body.records),
+});
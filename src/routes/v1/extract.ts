@@ -1,122 +1,68 @@
-import type { FastifyInstance } from "fastify";
-
-import type { AppConfig } from "../../config.js";
-import { extractWebContent, type ExtractOptions } from "../../lib/webExtract.js";
-import { getRawPaymentContext } from "../../middleware/requirePayment.js";
+import { extractWebContent, type ExtractOptions, type ExtractedContent } from "../../lib/webExtract.js";
+import { definePaidRoute } from "../paidRoute.js";
 
 interface ExtractBody {
   url: string;
   options?: ExtractOptions;
 }
 
-export async function registerExtractRoute(app: FastifyInstance, config: AppConfig): Promise<void> {
-  app.post<{ Body: ExtractBody }>(
-    "/extract",
-    {
-      schema: {
-        headers: {
-          type: "object",
-          properties: {
-            "idempotency-key": { type: "string", minLength: 1 },
-          },
-          required: ["idempotency-key"],
-        },
-        body: {
-          type: "object",
-          properties: {
-            url: { type: "string", minLength: 1 },
-            options: {
-              type: "object",
-              properties: {
-                includeLinks: { type: "boolean" },
-                includeImages: { type: "boolean" },
-              },
-            },
-          },
-          required: ["url"],
-        },
-        response: {
-          200: {
-            type: "object",
-            properties: {
-              ok: { type: "boolean" },
-              data: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  text: { type: "string" },
-                  description: { type: "string" },
-                  links: {
-                    type: "array",
-                    items: { type: "string" },
-                  },
-                  images: {
-                    type: "array",
-                    items: { type: "string" },
-                  },
-                  wordCount: { type: "number" },
-                  language: { type: "string" },
-                  request_id: { type: "string" },
-                },
-                required: ["title", "text", "description", "links", "wordCount", "language", "request_id"],
-              },
-              receipt: {
-                type: "object",
-                properties: {
-                  chainId: { type: "number" },
-                  currency: { type: "string" },
-                  amount: { type: "string" },
-                  receiver: { type: "string" },
-                  txHash: { type: "string" },
-                  payer: { type: "string" },
-                  idempotencyKey: { type: "string" },
-                },
-                required: [
-                  "chainId",
-                  "currency",
-                  "amount",
-                  "receiver",
-                  "txHash",
-                  "payer",
-                  "idempotencyKey",
-                ],
-              },
-            },
-            required: ["ok", "data", "receipt"],
-          },
+export const extractRoute = definePaidRoute<ExtractBody, ExtractedContent>({
+  name: "extract",
+  description: "Extract clean text, title, description, and links from any public URL",
+  // Each call fetches a third-party page.
+  rateLimitPerMin: 20,
+  price: {
+    baseUsdc: (config) => config.priceUsdc,
+    perUnitUsdc: "0.001",
+    unit: "included option",
+    countUnits: (body) => [body.options?.includeLinks, body.options?.includeImages].filter(Boolean).length,
+  },
+  bodySchema: {
+    type: "object",
+    properties: {
+      url: { type: "string", minLength: 1 },
+      options: {
+        type: "object",
+        properties: {
+          includeLinks: { type: "boolean" },
+          includeImages: { type: "boolean" },
         },
       },
     },
-    async (request, reply) => {
-      const rawPaymentContext = getRawPaymentContext(request.raw);
-      if (rawPaymentContext) {
-        request.requestContext.paid = rawPaymentContext.paid;
-        request.requestContext.paidMode = rawPaymentContext.paidMode;
-        request.requestContext.amount = rawPaymentContext.amount;
-        request.requestContext.wallet = rawPaymentContext.wallet;
-        request.requestContext.receiver = rawPaymentContext.receiver;
-      }
-
-      const extracted = await extractWebContent(request.body.url, request.body.options);
-
-      reply.header("cache-control", "no-store");
-
-      return {
-        ok: true,
-        data: {
-          ...extracted,
-          request_id: request.requestContext.requestId,
-        },
-        receipt: {
-          chainId: config.chainId,
-          currency: "USDC",
-          amount: config.priceUsdc,
-          receiver: config.receiverAddress,
-          txHash: request.requestContext.txHash ?? "",
-          payer: request.requestContext.wallet ?? "",
-          idempotencyKey: request.requestContext.idempotencyKey ?? "",
-        },
-      };
+    required: ["url"],
+  },
+  dataSchema: {
+    properties: {
+      title: { type: "string" },
+      text: { type: "string" },
+      description: { type: "string" },
+      links: {
+        type: "array",
+        items: { type: "string" },
+      },
+      images: {
+        type: "array",
+        items: { type: "string" },
+      },
+      wordCount: { type: "number" },
+      language: { type: "string" },
     },
-  );
-}
+    required: ["title", "text", "description", "links", "wordCount", "language"],
+  },
+  docs: {
+    body: {
+      url: "string (required) — URL to fetch and extract",
+      "options.includeLinks": "boolean — include outbound links in response (default: false)",
+      "options.includeImages": "boolean — include image URLs in response (default: false)",
+    },
+    data: {
+      title: "Page title",
+      text: "Clean extracted body text",
+      description: "Meta description or excerpt",
+      links: "Array of outbound links (if requested)",
+      wordCount: "Approximate word count",
+      language: "Detected language code",
+    },
+  },
+  handler: (request) => extractWebContent(request.body.url, request.body.options),
+});
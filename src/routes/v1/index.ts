@@ -0,0 +1,16 @@
+import type { PaidRouteDefinition } from "../paidRoute.js";
+import { creditsTopupRoute } from "./credits.js";
+import { dnsRoute } from "./dns.js";
+import { echoRoute } from "./echo.js";
+import { extractRoute } from "./extract.js";
+import { PASS_ROUTES } from "./passes.js";
+import { sentimentRoute } from "./sentiment.js";
+
+export const PAID_ROUTES: PaidRouteDefinition[] = [
+  echoRoute,
+  extractRoute,
+  dnsRoute,
+  sentimentRoute,
+  creditsTopupRoute,
+  ...PASS_ROUTES,
+];
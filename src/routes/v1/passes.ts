@@ -0,0 +1,89 @@
+import { AppError } from "../../lib/errors.js";
+import type { PassOffer } from "../../lib/passes.js";
+import { definePaidRoute, type PaidRouteDefinition } from "../paidRoute.js";
+
+interface PassData {
+  passId: string;
+  offer: string;
+  wallet: string;
+  routes: string[];
+  expiresAt: string;
+  maxCalls?: number;
+  token: string;
+}
+
+export const PASS_OFFERS: PassOffer[] = [
+  {
+    id: "dns-24h",
+    description: "Unlimited POST /v1/dns calls for 24 hours",
+    priceUsdc: "1.00",
+    routes: ["POST /v1/dns"],
+    durationSeconds: 24 * 60 * 60,
+  },
+  {
+    id: "sentiment-1000",
+    description: "1000 POST /v1/sentiment calls within 30 days",
+    priceUsdc: "0.50",
+    routes: ["POST /v1/sentiment"],
+    durationSeconds: 30 * 24 * 60 * 60,
+    maxCalls: 1000,
+  },
+];
+
+export function definePassRoute(offer: PassOffer): PaidRouteDefinition {
+  return definePaidRoute<Record<string, never>, PassData>({
+    name: `passes/${offer.id}`,
+    description: `Buy an access pass: ${offer.description}`,
+    price: offer.priceUsdc,
+    // Settled before the handler so a pass is never issued for a payment that did not land.
+    settlement: "upfront",
+    passOffer: offer,
+    bodySchema: {
+      type: "object",
+      additionalProperties: false,
+    },
+    dataSchema: {
+      properties: {
+        passId: { type: "string" },
+        offer: { type: "string" },
+        wallet: { type: "string" },
+        routes: { type: "array", items: { type: "string" } },
+        expiresAt: { type: "string" },
+        maxCalls: { type: "number" },
+        token: { type: "string" },
+      },
+      required: ["passId", "offer", "wallet", "routes", "expiresAt", "token"],
+    },
+    docs: {
+      body: {},
+      data: {
+        passId: "Pass identifier, repeated in receipts of calls made with it",
+        offer: "Offer id",
+        wallet: "Wallet the pass is bound to (the payer)",
+        routes: "Routes the pass pays for",
+        expiresAt: "ISO 8601 expiry",
+        maxCalls: "Call allowance, absent for unlimited passes",
+        token: "Send as X-Access-Pass instead of X-PAYMENT, with a credit token or signature from the pass wallet",
+      },
+    },
+    handler: (request) => {
+      const context = request.requestContext;
+      if (context.settlement !== "settled" || !context.wallet) {
+        throw new AppError(400, "PAYMENT_INVALID", "Access passes must be bought with a settled payment");
+      }
+
+      const { token, claims } = request.server.passes.issue(offer, context.wallet);
+      return {
+        passId: claims.id,
+        offer: claims.offer,
+        wallet: claims.wallet,
+        routes: claims.routes,
+        expiresAt: new Date(claims.expiresAt * 1000).toISOString(),
+        ...(claims.maxCalls !== undefined ? { maxCalls: claims.maxCalls } : {}),
+        token,
+      };
+    },
+  });
+}
+
+export const PASS_ROUTES = PASS_OFFERS.map(definePassRoute);
@@ -1,117 +1,58 @@
-import type { FastifyInstance } from "fastify";
-
-import type { AppConfig } from "../../config.js";
-import { analyzeSentiment, SENTIMENT_ROUTE_PRICE_USDC } from "../../lib/sentiment.js";
-import { getRawPaymentContext } from "../../middleware/requirePayment.js";
+import { analyzeSentiment, type SentimentAnalysis } from "../../lib/sentiment.js";
+import { definePaidRoute } from "../paidRoute.js";
 
 interface SentimentBody {
   text: string;
 }
 
-export async function registerSentimentRoute(app: FastifyInstance, config: AppConfig): Promise<void> {
-  app.post<{ Body: SentimentBody }>(
-    "/sentiment",
-    {
-      schema: {
-        headers: {
-          type: "object",
-          properties: {
-            "idempotency-key": { type: "string", minLength: 1 },
-          },
-          required: ["idempotency-key"],
-        },
-        body: {
+export const sentimentRoute = definePaidRoute<SentimentBody, SentimentAnalysis>({
+  name: "sentiment",
+  description: "Analyze overall and sentence-level sentiment for submitted text",
+  price: {
+    baseUsdc: "0.001",
+    perUnitUsdc: "0.001",
+    unit: "started KB of text",
+    countUnits: (body) => Math.ceil(Buffer.byteLength(body.text, "utf8") / 1024),
+  },
+  bodySchema: {
+    type: "object",
+    properties: {
+      text: { type: "string", minLength: 1 },
+    },
+    required: ["text"],
+  },
+  dataSchema: {
+    properties: {
+      sentiment: { type: "string" },
+      score: { type: "number" },
+      magnitude: { type: "number" },
+      language: { type: "string" },
+      sentences: {
+        type: "array",
+        items: {
           type: "object",
           properties: {
-            text: { type: "string", minLength: 1 },
-          },
-          required: ["text"],
-        },
-        response: {
-          200: {
-            type: "object",
-            properties: {
-              ok: { type: "boolean" },
-              data: {
-                type: "object",
-                properties: {
-                  sentiment: { type: "string" },
-                  score: { type: "number" },
-                  magnitude: { type: "number" },
-                  language: { type: "string" },
-                  sentences: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        text: { type: "string" },
-                        sentiment: { type: "string" },
-                        score: { type: "number" },
-                      },
-                      required: ["text", "sentiment", "score"],
-                    },
-                  },
-                  request_id: { type: "string" },
-                },
-                required: ["sentiment", "score", "magnitude", "language", "sentences", "request_id"],
-              },
-              receipt: {
-                type: "object",
-                properties: {
-                  chainId: { type: "number" },
-                  currency: { type: "string" },
-                  amount: { type: "string" },
-                  receiver: { type: "string" },
-                  txHash: { type: "string" },
-                  payer: { type: "string" },
-                  idempotencyKey: { type: "string" },
-                },
-                required: [
-                  "chainId",
-                  "currency",
-                  "amount",
-                  "receiver",
-                  "txHash",
-                  "payer",
-                  "idempotencyKey",
-                ],
-              },
-            },
-            required: ["ok", "data", "receipt"],
+            text: { type: "string" },
+            sentiment: { type: "string" },
+            score: { type: "number" },
           },
+          required: ["text", "sentiment", "score"],
         },
       },
     },
-    async (request, reply) => {
-      const rawPaymentContext = getRawPaymentContext(request.raw);
-      if (rawPaymentContext) {
-        request.requestContext.paid = rawPaymentContext.paid;
-        request.requestContext.paidMode = rawPaymentContext.paidMode;
-        request.requestContext.amount = rawPaymentContext.amount;
-        request.requestContext.wallet = rawPaymentContext.wallet;
-        request.requestContext.receiver = rawPaymentContext.receiver;
-      }
-
-      const analysis = analyzeSentiment(request.body.text);
-
-      reply.header("cache-control", "no-store");
-
-      return {
-        ok: true,
-        data: {
-          ...analysis,
-          request_id: request.requestContext.requestId,
-        },
-        receipt: {
-          chainId: config.chainId,
-          currency: "USDC",
-          amount: SENTIMENT_ROUTE_PRICE_USDC,
-          receiver: config.receiverAddress,
-          txHash: request.requestContext.txHash ?? "",
-          payer: request.requestContext.wallet ?? "",
-          idempotencyKey: request.requestContext.idempotencyKey ?? "",
-        },
-      };
+    required: ["sentiment", "score", "magnitude", "language", "sentences"],
+  },
+  docs: {
+    body: {
+      text: "string (required) — text to analyze, max 10KB",
     },
-  );
-}
+    data: {
+      sentiment: "Overall sentiment label: positive, neutral, or negative",
+      score: "Normalized overall score in the range [-1, 1]",
+      magnitude: "Absolute sentiment intensity in the range [0, 1]",
+      language: "Best-effort detected language code",
+      sentences: "Sentence-level sentiment summaries",
+    },
+  },
+  handler: (request) => analyzeSentiment(request.body.text),
+});
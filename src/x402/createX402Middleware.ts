@@ -1,40 +1,66 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 
 import { x402Facilitator } from "@x402/core/facilitator";
-import { type FacilitatorClient, type RoutesConfig, x402ResourceServer } from "@x402/core/server";
+import {
+  type FacilitatorClient,
+  HTTPFacilitatorClient,
+  type RoutesConfig,
+  x402HTTPResourceServer,
+  x402ResourceServer,
+} from "@x402/core/server";
+import type { PaymentPayload, PaymentRequirements } from "@x402/core/types";
 import { toFacilitatorEvmSigner } from "@x402/evm";
 import { registerExactEvmScheme } from "@x402/evm/exact/facilitator";
-import { paymentMiddleware } from "@x402/express";
+import { ExactEvmScheme } from "@x402/evm/exact/server";
+import { ExpressAdapter } from "@x402/express";
 import { createPublicClient, createWalletClient, http, publicActions } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { base } from "viem/chains";
 
 import { adaptExpressLikeRequest, adaptExpressLikeResponse } from "../lib/expressCompat.js";
-import type { AppConfig } from "../config.js";
-import { DNS_ROUTE_PRICE_BASE_UNITS } from "../lib/dnsLookup.js";
-import { SENTIMENT_ROUTE_PRICE_BASE_UNITS } from "../lib/sentiment.js";
+import type { AppConfig, NetworkConfig } from "../config.js";
+import { getNetworkDefinition } from "../lib/networks.js";
 
+const VERIFIED_PAYMENT = Symbol.for("x402.verified-payment");
+
+export interface VerifiedPayment {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  declaredExtensions?: Record<string, unknown>;
+}
+
+export type SettlementResult =
+  | { success: true; transaction: string; network: string; payer?: string; headers: Record<string, string> }
+  | { success: false; reason: string };
+
+interface VerifiedRequest extends IncomingMessage {
+  [VERIFIED_PAYMENT]?: VerifiedPayment;
+}
+
+// Payment is split in two: `middleware` verifies the payment before the handler runs and leaves it
+// on the request; `settle` charges it once the response status is known (see middleware/settlement.ts).
 export interface X402Bundle {
   middleware: (req: IncomingMessage, res: ServerResponse, next: (err?: Error) => void) => Promise<void>;
+  settle: (payment: VerifiedPayment) => Promise<SettlementResult>;
   receiverAddress: string;
 }
 
-export function createX402Middleware(config: AppConfig): X402Bundle {
-  const account = privateKeyToAccount(config.sellerPrivateKey);
-  const transport = http(config.baseRpcUrl, { timeout: config.upstreamTimeoutMs });
+function createFacilitatorSigner(config: AppConfig, network: NetworkConfig, sellerPrivateKey: `0x${string}`) {
+  const account = privateKeyToAccount(sellerPrivateKey);
+  const { chain } = getNetworkDefinition(network.chainId);
+  const transport = http(network.rpcUrl, { timeout: config.upstreamTimeoutMs });
 
   const publicClient = createPublicClient({
-    chain: base,
+    chain,
     transport,
   });
 
   const walletClient = createWalletClient({
     account,
-    chain: base,
+    chain,
     transport,
   }).extend(publicActions);
 
-  const facilitatorSigner = toFacilitatorEvmSigner({
+  return toFacilitatorEvmSigner({
     address: account.address,
     readContract: publicClient.readContract,
     verifyTypedData: publicClient.verifyTypedData,
@@ -43,16 +69,25 @@ export function createX402Middleware(config: AppConfig): X402Bundle {
     waitForTransactionReceipt: publicClient.waitForTransactionReceipt,
     getCode: publicClient.getCode,
   } as never);
+}
+
+function createSelfFacilitatorClient(config: AppConfig): FacilitatorClient {
+  const { sellerPrivateKey } = config;
+  if (!sellerPrivateKey) {
+    throw new Error("SELLER_PRIVATE_KEY is required when FACILITATOR_MODE=self");
+  }
 
   const facilitator = new x402Facilitator();
-  const network = `eip155:${config.chainId}` as `${string}:${string}`;
 
-  registerExactEvmScheme(facilitator, {
-    signer: facilitatorSigner,
-    networks: network,
-  });
+  // Each accepted network settles through its own RPC, so it gets its own signer.
+  for (const network of config.acceptedNetworks) {
+    registerExactEvmScheme(facilitator, {
+      signer: createFacilitatorSigner(config, network, sellerPrivateKey),
+      networks: network.network,
+    });
+  }
 
-  const facilitatorClient: FacilitatorClient = {
+  return {
     verify: facilitator.verify.bind(facilitator),
     settle: facilitator.settle.bind(facilitator),
     getSupported: async () => {
@@ -66,70 +101,108 @@ export function createX402Middleware(config: AppConfig): X402Bundle {
       };
     },
   };
+}
 
-  const resourceServer = new x402ResourceServer(facilitatorClient);
+function createRemoteFacilitatorClient(config: AppConfig): FacilitatorClient {
+  const headers = config.facilitatorAuthHeaders;
+  return new HTTPFacilitatorClient({
+    url: config.facilitatorUrl,
+    createAuthHeaders:
+      Object.keys(headers).length > 0
+        ? async () => ({ verify: headers, settle: headers, supported: headers })
+        : undefined,
+  });
+}
 
-  const routes: RoutesConfig = {
-    "POST /v1/dns": {
-      accepts: {
-        scheme: "exact",
-        network,
-        payTo: config.receiverAddress,
-        price: {
-          asset: config.usdcContract,
-          amount: DNS_ROUTE_PRICE_BASE_UNITS,
-        },
-      },
-      description: "Paid DNS and TLS intelligence endpoint",
-      mimeType: "application/json",
-    },
-    "POST /v1/echo": {
-      accepts: {
-        scheme: "exact",
-        network,
-        payTo: config.receiverAddress,
-        price: {
-          asset: config.usdcContract,
-          amount: config.priceBaseUnits,
-        },
-      },
-      description: "Paid echo endpoint",
-      mimeType: "application/json",
-    },
-    "POST /v1/extract": {
-      accepts: {
-        scheme: "exact",
-        network,
-        payTo: config.receiverAddress,
-        price: {
-          asset: config.usdcContract,
-          amount: config.priceBaseUnits,
-        },
-      },
-      description: "Paid web content extraction endpoint",
-      mimeType: "application/json",
-    },
-    "POST /v1/sentiment": {
-      accepts: {
-        scheme: "exact",
-        network,
-        payTo: config.receiverAddress,
-        price: {
-          asset: config.usdcContract,
-          amount: SENTIMENT_ROUTE_PRICE_BASE_UNITS,
-        },
-      },
-      description: "Paid text sentiment analysis endpoint",
-      mimeType: "application/json",
-    },
-  };
+function createFacilitatorClient(config: AppConfig): FacilitatorClient {
+  switch (config.facilitatorMode) {
+    case "remote":
+      return createRemoteFacilitatorClient(config);
+    default:
+      return createSelfFacilitatorClient(config);
+  }
+}
+
+export function createX402Middleware(
+  config: AppConfig,
+  routes: RoutesConfig,
+  facilitatorClient: FacilitatorClient = createFacilitatorClient(config),
+): X402Bundle {
+  const resourceServer = new x402ResourceServer(facilitatorClient);
+  for (const network of config.acceptedNetworks) {
+    resourceServer.register(network.network, new ExactEvmScheme());
+  }
 
-  const expressMiddleware = paymentMiddleware(routes, resourceServer);
+  const httpServer = new x402HTTPResourceServer(resourceServer, routes);
+  // Sync supported kinds eagerly, but surface a failure on the first paid request instead of crashing.
+  const ready = httpServer.initialize();
+  ready.catch(() => undefined);
 
   return {
     middleware: async (req, res, next) => {
-      await expressMiddleware(adaptExpressLikeRequest(req) as never, adaptExpressLikeResponse(res) as never, next as never);
+      const adapter = new ExpressAdapter(adaptExpressLikeRequest(req) as never);
+      const context = {
+        adapter,
+        path: adapter.getPath(),
+        method: adapter.getMethod(),
+        paymentHeader: adapter.getHeader("payment-signature") || adapter.getHeader("x-payment"),
+      };
+      if (!httpServer.requiresPayment(context)) {
+        next();
+        return;
+      }
+
+      await ready;
+      const result = await httpServer.processHTTPRequest(context);
+
+      if (result.type === "payment-error") {
+        const expressRes = adaptExpressLikeResponse(res);
+        expressRes.status?.(result.response.status);
+        for (const [key, value] of Object.entries(result.response.headers)) {
+          expressRes.setHeader(key, value);
+        }
+        if (result.response.isHtml) {
+          expressRes.send?.(result.response.body);
+        } else {
+          expressRes.json?.(result.response.body ?? {});
+        }
+        return;
+      }
+
+      if (result.type === "payment-verified") {
+        (req as VerifiedRequest)[VERIFIED_PAYMENT] = {
+          paymentPayload: result.paymentPayload,
+          paymentRequirements: result.paymentRequirements,
+          declaredExtensions: result.declaredExtensions,
+        };
+      }
+      next();
     },
-    receiverAddress: config.receiverAddress,
+    settle: async (payment) => {
+      try {
+        const result = await httpServer.processSettlement(
+          payment.paymentPayload,
+          payment.paymentRequirements,
+          payment.declaredExtensions,
+        );
+        if (!result.success) {
+          return { success: false, reason: result.errorMessage ?? result.errorReason };
+        }
+        return {
+          success: true,
+          transaction: result.transaction,
+          network: result.network,
+          payer: result.payer,
+          headers: result.headers,
+        };
+      } catch (error) {
+        return { success: false, reason: error instanceof Error ? error.message : "Unknown settlement error" };
+      }
+    },
+    receiverAddress: config.network.receiverAddress,
   };
 }
+
+export function getVerifiedPayment(raw: IncomingMessage): VerifiedPayment | undefined {
+  return (raw as VerifiedRequest)[VERIFIED_PAYMENT];
+}
@@ -0,0 +1,215 @@
+import type { FacilitatorClient } from "@x402/core/server";
+import type { PaymentPayload, PaymentRequirements, SettleResponse, VerifyResponse } from "@x402/core/types";
+import { authorizationTypes } from "@x402/evm";
+import { getAddress, isAddressEqual, keccak256, toHex, verifyTypedData } from "viem";
+
+import type { NetworkConfig } from "../config.js";
+import type { TransactionLookup } from "../lib/transactions.js";
+
+export interface FakeSettlement {
+  transaction: `0x${string}`;
+  blockNumber: bigint;
+  network: string;
+  asset: string;
+  payer: string;
+  payTo: string;
+  amount: string;
+  nonce: string;
+}
+
+export interface FakeFacilitator extends FacilitatorClient {
+  settlements: FakeSettlement[];
+  fund: (address: string, amount: bigint | string, network?: string) => void;
+  balanceOf: (address: string, network?: string) => bigint;
+  // Reports fake settlements as mined, for GET /v1/receipts/:requestId.
+  lookupTransaction: TransactionLookup;
+}
+
+export interface FakeFacilitatorOptions {
+  networks: NetworkConfig[];
+  // Starting USDC balances in base units on the first network.
+  balances?: Record<string, bigint | string>;
+  // Defaults to true. FACILITATOR_MODE=local turns it off so any throwaway wallet can pay.
+  enforceBalances?: boolean;
+}
+
+interface Eip3009Authorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: `0x${string}`;
+}
+
+function readAuthorization(payload: PaymentPayload): { authorization: Eip3009Authorization; signature: `0x${string}` } | undefined {
+  const { authorization, signature } = payload.payload as {
+    authorization?: Eip3009Authorization;
+    signature?: `0x${string}`;
+  };
+  if (!authorization?.from || !authorization.to || !authorization.nonce || !signature) return undefined;
+  return { authorization, signature };
+}
+
+function invalid(invalidReason: string, payer?: string): VerifyResponse {
+  return { isValid: false, invalidReason, payer };
+}
+
+// An offline stand-in for the facilitator and USDC contract: it checks EIP-3009
+// TransferWithAuthorization signatures exactly like the token would, keeps balances and used
+// nonces in memory, and "settles" by moving balances under a deterministic fake tx hash.
+export function createFakeFacilitator(options: FakeFacilitatorOptions): FakeFacilitator {
+  const [primary] = options.networks;
+  if (!primary) {
+    throw new Error("Fake facilitator needs at least one network");
+  }
+
+  const networks = new Map(options.networks.map((network) => [network.network as string, network]));
+  const balances = new Map<string, bigint>();
+  const usedNonces = new Set<string>();
+  const settlements: FakeSettlement[] = [];
+  let blockNumber = 1_000_000n;
+
+  const balanceKey = (network: string, address: string) => `${network}:${address.toLowerCase()}`;
+  const nonceKey = (network: string, nonce: string) => `${network}:${nonce.toLowerCase()}`;
+
+  const balanceOf = (address: string, network: string = primary.network) => balances.get(balanceKey(network, address)) ?? 0n;
+
+  const fund = (address: string, amount: bigint | string, network: string = primary.network) => {
+    balances.set(balanceKey(network, address), balanceOf(address, network) + BigInt(amount));
+  };
+
+  for (const [address, amount] of Object.entries(options.balances ?? {})) {
+    fund(address, amount);
+  }
+
+  const verify = async (payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> => {
+    if (payload.accepted.scheme !== "exact" || requirements.scheme !== "exact") {
+      return invalid("unsupported_scheme");
+    }
+
+    const network = networks.get(requirements.network);
+    if (!network || payload.accepted.network !== requirements.network) {
+      return invalid("network_mismatch");
+    }
+    if (!isAddressEqual(getAddress(requirements.asset), network.usdcContract)) {
+      return invalid("unsupported_asset");
+    }
+
+    const parsed = readAuthorization(payload);
+    if (!parsed) {
+      return invalid("invalid_exact_evm_payload");
+    }
+    const { authorization, signature } = parsed;
+    const payer = getAddress(authorization.from);
+
+    const signatureValid = await verifyTypedData({
+      address: payer,
+      domain: {
+        name: network.usdcName,
+        version: network.usdcVersion,
+        chainId: network.chainId,
+        verifyingContract: network.usdcContract,
+      },
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: payer,
+        to: getAddress(authorization.to),
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce,
+      },
+      signature,
+    }).catch(() => false);
+    if (!signatureValid) {
+      return invalid("invalid_exact_evm_payload_signature", payer);
+    }
+
+    if (!isAddressEqual(getAddress(authorization.to), getAddress(requirements.payTo))) {
+      return invalid("invalid_exact_evm_payload_recipient_mismatch", payer);
+    }
+    if (BigInt(authorization.value) !== BigInt(requirements.amount)) {
+      return invalid("invalid_exact_evm_payload_authorization_value", payer);
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(authorization.validAfter) > now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_after", payer);
+    }
+    if (BigInt(authorization.validBefore) <= now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_before", payer);
+    }
+
+    if (usedNonces.has(nonceKey(network.network, authorization.nonce))) {
+      return invalid("invalid_exact_evm_payload_authorization_nonce", payer);
+    }
+    if (options.enforceBalances !== false && balanceOf(payer, network.network) < BigInt(authorization.value)) {
+      return invalid("insufficient_funds", payer);
+    }
+
+    return { isValid: true, payer };
+  };
+
+  const settle = async (payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> => {
+    const verification = await verify(payload, requirements);
+    const parsed = readAuthorization(payload);
+    if (!verification.isValid || !parsed) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        payer: verification.payer,
+        transaction: "",
+        network: requirements.network,
+      };
+    }
+
+    const { authorization } = parsed;
+    const amount = BigInt(authorization.value);
+    usedNonces.add(nonceKey(requirements.network, authorization.nonce));
+    fund(authorization.from, -amount, requirements.network);
+    fund(authorization.to, amount, requirements.network);
+
+    blockNumber += 1n;
+    const transaction = keccak256(toHex(`${requirements.network}:${authorization.nonce}`));
+    settlements.push({
+      transaction,
+      blockNumber,
+      network: requirements.network,
+      asset: requirements.asset,
+      payer: getAddress(authorization.from),
+      payTo: getAddress(authorization.to),
+      amount: authorization.value,
+      nonce: authorization.nonce,
+    });
+
+    return {
+      success: true,
+      payer: getAddress(authorization.from),
+      transaction,
+      network: requirements.network,
+    };
+  };
+
+  const lookupTransaction: TransactionLookup = async (network, txHash) => {
+    const settlement = settlements.find(
+      (entry) => entry.network === network && entry.transaction.toLowerCase() === txHash.toLowerCase(),
+    );
+    return settlement ? { status: "success", blockNumber: settlement.blockNumber } : undefined;
+  };
+
+  return {
+    settlements,
+    fund,
+    balanceOf,
+    lookupTransaction,
+    verify,
+    settle,
+    getSupported: async () => ({
+      kinds: options.networks.map((network) => ({ x402Version: 2, scheme: "exact", network: network.network })),
+      extensions: [],
+      signers: {},
+    }),
+  };
+}
@@ -0,0 +1,85 @@
+import Fastify from "fastify";
+import { describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { compileTrustProxy, resolveClientIp, type TrustProxy } from "../src/lib/clientIp.js";
+
+const env: Record<string, string> = {
+  NODE_ENV: "test",
+  CHAIN_ID: "8453",
+  BASE_RPC_URL: "https://mainnet.base.org",
+  SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+  PRICE_USDC: "0.01",
+  SERVICE_NAME: "x402-template-test",
+  PUBLIC_BASE_URL: "http://127.0.0.1",
+  X402_DEV_BYPASS: "false",
+  LOG_LEVEL: "silent",
+};
+
+async function resolveBothWays(trustProxy: TrustProxy, remoteAddress: string, forwardedFor?: string) {
+  const trust = compileTrustProxy(trustProxy);
+  const app = Fastify({ trustProxy: trust });
+  app.get("/ip", async (request) => ({ fastify: request.ip, raw: resolveClientIp(request.raw, trust) }));
+
+  const response = await app.inject({
+    method: "GET",
+    url: "/ip",
+    remoteAddress,
+    headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+  });
+  await app.close();
+  return response.json() as { fastify: string; raw: string };
+}
+
+describe("client IP resolution", () => {
+  it.each([
+    ["ignores X-Forwarded-For from untrusted peers", "loopback", "203.0.113.7", "1.2.3.4", "203.0.113.7"],
+    ["takes the client from a trusted proxy", "10.0.0.0/8", "10.1.2.3", "198.51.100.1", "198.51.100.1"],
+    ["skips entries the client prepended itself", "10.0.0.0/8", "10.1.2.3", "6.6.6.6, 198.51.100.1", "198.51.100.1"],
+    ["walks through a chain of trusted proxies", "10.0.0.0/8", "10.1.2.3", "6.6.6.6, 198.51.100.1, 10.9.9.9", "198.51.100.1"],
+    ["trusts a fixed number of hops", 1, "203.0.113.7", "6.6.6.6, 198.51.100.1", "198.51.100.1"],
+    ["trusts nothing with zero hops", 0, "10.1.2.3", "198.51.100.1", "10.1.2.3"],
+  ] as const)("%s", async (_name, trustProxy, remoteAddress, forwardedFor, expected) => {
+    const trust = typeof trustProxy === "number" ? trustProxy : [trustProxy];
+    const { fastify, raw } = await resolveBothWays(trust, remoteAddress, forwardedFor);
+
+    expect(fastify).toBe(expected);
+    expect(raw).toBe(expected);
+  });
+
+  it("parses TRUST_PROXY", () => {
+    expect(loadConfig(env).trustProxy).toEqual(["loopback", "linklocal", "uniquelocal"]);
+    expect(loadConfig({ ...env, TRUST_PROXY: "2" }).trustProxy).toBe(2);
+    expect(loadConfig({ ...env, TRUST_PROXY: "false" }).trustProxy).toBe(0);
+    expect(loadConfig({ ...env, TRUST_PROXY: "10.0.0.0/8, 192.168.1.1" }).trustProxy).toEqual(["10.0.0.0/8", "192.168.1.1"]);
+    expect(() => loadConfig({ ...env, TRUST_PROXY: "true" })).toThrow(/TRUST_PROXY=true/);
+    expect(() => loadConfig({ ...env, TRUST_PROXY: "10.0.0.0/99" })).toThrow(/Invalid TRUST_PROXY/);
+  });
+
+  it("does not let callers dodge the limiters by rotating X-Forwarded-For", async () => {
+    const app = await buildApp(loadConfig({ ...env, TRUST_PROXY: "10.0.0.0/8", RATE_LIMIT_UNPAID_PER_MIN: "2" }));
+    const unpaid = (remoteAddress: string, forwardedFor: string) =>
+      app.inject({
+        method: "POST",
+        url: "/v1/echo",
+        remoteAddress,
+        headers: { "content-type": "application/json", "idempotency-key": "ip-test", "x-forwarded-for": forwardedFor },
+        payload: { hello: "world" },
+      });
+
+    // Each 402 counts once at the gate and once more when it is sent.
+    expect((await unpaid("203.0.113.7", "1.1.1.1")).statusCode).toBe(402);
+    const spoofed = await unpaid("203.0.113.7", "2.2.2.2");
+    expect(spoofed.statusCode).toBe(429);
+    expect(spoofed.json()).toMatchObject({ error: { code: "RATE_LIMITED", message: "Unpaid attempt rate limit exceeded" } });
+
+    expect((await unpaid("10.1.2.3", "198.51.100.1")).statusCode).toBe(402);
+    expect((await unpaid("10.1.2.3", "198.51.100.2")).statusCode).toBe(402);
+    expect((await unpaid("10.1.2.3", "9.9.9.9, 198.51.100.1")).statusCode).toBe(429);
+
+    await app.close();
+  });
+});
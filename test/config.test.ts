@@ -0,0 +1,209 @@
+import { decodePaymentRequiredHeader } from "@x402/core/http";
+import Fastify from "fastify";
+import { describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { buildReceipt } from "../src/routes/paidRoute.js";
+
+const baseEnv: Record<string, string> = {
+  NODE_ENV: "test",
+  CHAIN_ID: "8453",
+  BASE_RPC_URL: "https://mainnet.base.org",
+  SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+  PRICE_USDC: "0.01",
+  SERVICE_NAME: "x402-template-test",
+  PUBLIC_BASE_URL: "http://127.0.0.1",
+  X402_DEV_BYPASS: "true",
+};
+
+describe("config networks", () => {
+  it("defaults to Base mainnet", () => {
+    const config = loadConfig(baseEnv);
+
+    expect(config.network).toMatchObject({
+      chainId: 8453,
+      network: "eip155:8453",
+      name: "base",
+      testnet: false,
+      rpcUrl: "https://mainnet.base.org",
+    });
+  });
+
+  it("resolves Base Sepolia with network-specific overrides", () => {
+    const config = loadConfig({
+      ...baseEnv,
+      CHAIN_ID: "84532",
+      USDC_CONTRACT: "",
+      RPC_URL_84532: "https://sepolia.example.org",
+      RECEIVER_ADDRESS_84532: "0x2222222222222222222222222222222222222222",
+    });
+
+    expect(config.network).toEqual({
+      chainId: 84532,
+      network: "eip155:84532",
+      name: "base-sepolia",
+      testnet: true,
+      rpcUrl: "https://sepolia.example.org",
+      usdcContract: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      usdcName: "USDC",
+      usdcVersion: "2",
+      receiverAddress: "0x2222222222222222222222222222222222222222",
+    });
+  });
+
+  it("rejects unknown chains", () => {
+    expect(() => loadConfig({ ...baseEnv, CHAIN_ID: "1" })).toThrow(/Unsupported CHAIN_ID: 1/);
+  });
+
+  it("pins production to mainnet unless MAINNET_ONLY is disabled", () => {
+    const production = {
+      ...baseEnv,
+      NODE_ENV: "production",
+      X402_DEV_BYPASS: "false",
+      CHAIN_ID: "84532",
+      PASS_SECRET: "production-pass-secret-production-pass-secret",
+    };
+
+    expect(() => loadConfig(production)).toThrow(/testnet/);
+    expect(loadConfig({ ...production, MAINNET_ONLY: "false" }).network.chainId).toBe(84532);
+    expect(() => loadConfig({ ...baseEnv, CHAIN_ID: "84532", MAINNET_ONLY: "true" })).toThrow(/testnet/);
+  });
+
+  it("requires a fixed PASS_SECRET in production so passes and quotes survive restarts", () => {
+    const production = { ...baseEnv, NODE_ENV: "production", X402_DEV_BYPASS: "false" };
+
+    expect(() => loadConfig(production)).toThrow("PASS_SECRET is required when NODE_ENV=production");
+    expect(() => loadConfig({ ...production, PASS_SECRET: "too-short" })).toThrow(/at least 32 characters/);
+    expect(loadConfig({ ...production, PASS_SECRET: "p".repeat(32) }).passSecret).toBe("p".repeat(32));
+    expect(loadConfig(baseEnv).passSecret).not.toBe(loadConfig(baseEnv).passSecret);
+  });
+
+  it("requires a fixed receipt key in production so receipts verify after restarts", () => {
+    const remote = {
+      ...baseEnv,
+      NODE_ENV: "production",
+      X402_DEV_BYPASS: "false",
+      FACILITATOR_MODE: "remote",
+      SELLER_PRIVATE_KEY: "",
+      PASS_SECRET: "p".repeat(32),
+    };
+    const receiptKey = "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+    expect(() => loadConfig(remote)).toThrow("RECEIPT_PRIVATE_KEY is required when NODE_ENV=production");
+    expect(loadConfig({ ...remote, RECEIPT_PRIVATE_KEY: receiptKey }).receiptPrivateKey).toBe(receiptKey);
+    expect(loadConfig({ ...remote, SELLER_PRIVATE_KEY: baseEnv.SELLER_PRIVATE_KEY }).receiptPrivateKey).toBe(baseEnv.SELLER_PRIVATE_KEY);
+  });
+
+  it("reports the active network in /meta, /catalog and receipts", async () => {
+    Object.assign(process.env, baseEnv, { CHAIN_ID: "84532", USDC_CONTRACT: "" });
+    const app = await buildApp(loadConfig());
+
+    const meta = await app.inject({ method: "GET", url: "/meta" });
+    expect(meta.json()).toMatchObject({ chainId: 84532, network: "eip155:84532", testnet: true });
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+    expect(catalog.json()).toMatchObject({
+      chainId: 84532,
+      network: "eip155:84532",
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    });
+
+    const paid = await app.inject({
+      method: "POST",
+      url: "/v1/echo",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "config-network-1",
+        "x-dev-bypass": "true",
+      },
+      payload: { ping: "pong" },
+    });
+    expect(paid.json()).toMatchObject({
+      receipt: { chainId: 84532, network: "eip155:84532" },
+    });
+
+    await app.close();
+    Object.assign(process.env, baseEnv);
+  });
+
+  it("loads additional accepted networks with their own defaults", () => {
+    const config = loadConfig({
+      ...baseEnv,
+      ACCEPTED_CHAIN_IDS: "8453, 84532",
+      RECEIVER_ADDRESS_84532: "0x2222222222222222222222222222222222222222",
+    });
+
+    expect(config.acceptedNetworks.map((network) => network.network)).toEqual(["eip155:8453", "eip155:84532"]);
+    expect(config.acceptedNetworks[1]).toMatchObject({
+      rpcUrl: "https://sepolia.base.org",
+      usdcContract: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      receiverAddress: "0x2222222222222222222222222222222222222222",
+    });
+    expect(() => loadConfig({ ...baseEnv, ACCEPTED_CHAIN_IDS: "84532", MAINNET_ONLY: "true" })).toThrow(/testnet/);
+  });
+
+  it("offers every accepted network in the 402 challenge and the catalog", async () => {
+    Object.assign(process.env, baseEnv, { X402_DEV_BYPASS: "false", LOG_LEVEL: "silent", ACCEPTED_CHAIN_IDS: "84532" });
+    const app = await buildApp(loadConfig());
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/echo",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "config-accepts-1",
+      },
+      payload: { ping: "pong" },
+    });
+    expect(response.statusCode).toBe(402);
+    const challenge = decodePaymentRequiredHeader(String(response.headers["payment-required"]));
+    expect(challenge.accepts.map((option) => [option.network, option.asset, option.amount])).toEqual([
+      ["eip155:8453", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", "10000"],
+      ["eip155:84532", "0x036CbD53842c5426634e7929541eC2318f3dCF7e", "10000"],
+    ]);
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+    const echoEntry = (catalog.json() as { endpoints: Array<{ path: string; accepts: unknown[] }> }).endpoints.find(
+      (ep) => ep.path === "/v1/echo",
+    );
+    expect(echoEntry?.accepts).toEqual([
+      expect.objectContaining({ network: "eip155:8453", chainId: 8453 }),
+      expect.objectContaining({ network: "eip155:84532", chainId: 84532 }),
+    ]);
+
+    await app.close();
+    delete process.env.ACCEPTED_CHAIN_IDS;
+    Object.assign(process.env, baseEnv);
+  });
+
+  it("records the payment option the payer chose on the receipt", async () => {
+    const config = loadConfig({ ...baseEnv, ACCEPTED_CHAIN_IDS: "84532" });
+    const app = Fastify();
+    app.get("/", async (request) => {
+      request.requestContext = {
+        requestId: "req-1",
+        startedAt: Date.now(),
+        paid: true,
+        paidMode: "x402",
+        chainId: 84532,
+        network: "eip155:84532",
+        asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        receiver: "0x2222222222222222222222222222222222222222",
+      };
+      return buildReceipt(request, config, { priceUsdc: "0.01", priceBaseUnits: "10000" });
+    });
+
+    const response = await app.inject({ method: "GET", url: "/" });
+    expect(response.json()).toMatchObject({
+      chainId: 84532,
+      network: "eip155:84532",
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      receiver: "0x2222222222222222222222222222222222222222",
+    });
+
+    await app.close();
+  });
+});
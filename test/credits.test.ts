@@ -0,0 +1,164 @@
+import type { x402Client } from "@x402/core/client";
+import type { FastifyInstance } from "fastify";
+import type { PrivateKeyAccount } from "viem/accounts";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { MemoryCreditStore } from "../src/lib/credits.js";
+import { MemoryLedger } from "../src/lib/ledger.js";
+import type { FakeFacilitator } from "../src/x402/fakeFacilitator.js";
+import { createTestBuyer, creditSignatureHeaders, payFor, postJson, RECEIVER, testEnv } from "./helpers/payments.js";
+
+let app: FastifyInstance | undefined;
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+});
+
+interface Setup {
+  app: FastifyInstance;
+  facilitator: FakeFacilitator;
+  credits: MemoryCreditStore;
+  ledger: MemoryLedger;
+  account: PrivateKeyAccount;
+  buyer: x402Client;
+}
+
+async function setup(): Promise<Setup> {
+  const config = loadConfig(testEnv);
+  const { account, client, facilitator } = createTestBuyer(config);
+  const credits = new MemoryCreditStore();
+  const ledger = new MemoryLedger();
+  app = await buildApp(config, { facilitatorClient: facilitator, credits, ledger });
+  return { app, facilitator, credits, ledger, account, buyer: client };
+}
+
+async function topup(target: FastifyInstance, buyer: x402Client, amountUsdc: string, idempotencyKey: string) {
+  return (await payFor(target, buyer, postJson("/v1/credits/topup", idempotencyKey, { amountUsdc }))).response;
+}
+
+function postEcho(target: FastifyInstance, idempotencyKey: string, headers: Record<string, string>) {
+  return target.inject({
+    method: "POST",
+    url: "/v1/echo",
+    headers: { "content-type": "application/json", "idempotency-key": idempotencyKey, ...headers },
+    payload: { ping: "pong" },
+  });
+}
+
+describe("prepaid credits", () => {
+  it("credits the payer with one settled top-up and issues a token", async () => {
+    const { app, facilitator, credits, account, buyer } = await setup();
+
+    const response = await topup(app, buyer, "0.05", "topup-1");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      ok: true,
+      data: { wallet: account.address, creditedUsdc: "0.05", balanceUsdc: "0.05" },
+      receipt: { amount: "0.05", payer: account.address },
+    });
+    expect(response.json().data.token).toMatch(/^cr_/);
+    expect(response.json().receipt.txHash).toBe(facilitator.settlements[0]?.transaction);
+    expect(facilitator.balanceOf(RECEIVER)).toBe(50000n);
+    expect(await credits.balance(account.address)).toBe(50000n);
+  });
+
+  it("draws paid calls down from the balance with a token and reports it in receipts", async () => {
+    const { app, facilitator, ledger, account, buyer } = await setup();
+    const { token } = (await topup(app, buyer, "0.02", "topup-token")).json().data;
+
+    const first = await postEcho(app, "credit-1", { "x-credit-token": token });
+    expect(first.statusCode).toBe(200);
+    expect(first.json().receipt).toMatchObject({
+      amount: "0.01",
+      payer: account.address,
+      txHash: "",
+      credits: { debitedUsdc: "0.01", balanceUsdc: "0.01" },
+    });
+
+    expect((await postEcho(app, "credit-2", { "x-credit-token": token })).json().receipt.credits).toEqual({
+      debitedUsdc: "0.01",
+      balanceUsdc: "0",
+    });
+
+    const broke = await postEcho(app, "credit-3", { "x-credit-token": token });
+    expect(broke.statusCode).toBe(402);
+    expect(broke.json()).toMatchObject({ ok: false, error: { code: "INSUFFICIENT_CREDITS" } });
+
+    expect(facilitator.settlements).toHaveLength(1);
+    const entries = await ledger.query({ route: "/v1/echo" });
+    expect(entries.map((entry) => [entry.paidMode, entry.outcome])).toEqual([
+      ["credits", "settled"],
+      ["credits", "settled"],
+    ]);
+  });
+
+  it("accepts a wallet signature and shows the balance on GET /credits", async () => {
+    const { app, credits, account } = await setup();
+    await credits.credit(account.address, 30000n);
+
+    const response = await postEcho(app, "signed-1", await creditSignatureHeaders(account, "POST", "/v1/echo", "signed-1"));
+    expect(response.statusCode).toBe(200);
+    expect(response.json().receipt.credits).toEqual({ debitedUsdc: "0.01", balanceUsdc: "0.02" });
+
+    const balance = await app.inject({ method: "GET", url: "/credits", headers: await creditSignatureHeaders(account, "GET", "/credits") });
+    expect(balance.statusCode).toBe(200);
+    expect(balance.json()).toEqual({ ok: true, wallet: account.address, balanceUsdc: "0.02" });
+  });
+
+  it("rejects bad credentials and does not debit failed calls", async () => {
+    const { app, credits, account } = await setup();
+    await credits.credit(account.address, 30000n);
+
+    const otherKey = await creditSignatureHeaders(account, "POST", "/v1/echo", "other-key");
+    const mismatched = await postEcho(app, "signed-2", otherKey);
+    expect(mismatched.statusCode).toBe(401);
+    expect(mismatched.json()).toMatchObject({ error: { code: "UNAUTHORIZED" } });
+
+    expect((await postEcho(app, "bad-token", { "x-credit-token": "cr_unknown" })).statusCode).toBe(401);
+    expect((await app.inject({ method: "GET", url: "/credits" })).statusCode).toBe(401);
+
+    const token = await credits.issueToken(account.address);
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/v1/dns",
+      headers: { "content-type": "application/json", "idempotency-key": "dns-1", "x-credit-token": token },
+      payload: { domain: "not_a_host", records: ["A"] },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json()).toMatchObject({ error: { code: "INVALID_DOMAIN" }, payment: { charged: false } });
+    expect(await credits.balance(account.address)).toBe(30000n);
+  });
+
+  it("does not let concurrent debits spend one balance twice", async () => {
+    const credits = new MemoryCreditStore();
+    await credits.credit(RECEIVER, 15000n);
+
+    const debits = await Promise.all([credits.debit(RECEIVER, 10000n), credits.debit(RECEIVER, 10000n)]);
+
+    expect(debits.filter((remaining) => remaining !== undefined)).toEqual([5000n]);
+    expect(await credits.balance(RECEIVER)).toBe(5000n);
+  });
+
+  it("does not let credits pay for top-ups", async () => {
+    const { app, credits, account } = await setup();
+    await credits.credit(account.address, 30000n);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/credits/topup",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "topup-with-credits",
+        "x-credit-token": await credits.issueToken(account.address),
+      },
+      payload: { amountUsdc: "0.01" },
+    });
+
+    expect(response.statusCode).toBe(402);
+    expect(response.json()).toMatchObject({ error: { code: "PAYMENT_REQUIRED" } });
+  });
+});
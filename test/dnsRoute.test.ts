@@ -5,8 +5,6 @@ import { AppError } from "../src/lib/errors.js";
 const lookupDomainIntelligence = vi.fn();
 
 vi.mock("../src/lib/dnsLookup.js", () => ({
-  DNS_ROUTE_PRICE_BASE_UNITS: "3000",
-  DNS_ROUTE_PRICE_USDC: "0.003",
   SUPPORTED_DNS_RECORD_TYPES: ["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA"],
   lookupDomainIntelligence,
 }));
@@ -194,7 +192,9 @@ describe("dns route", () => {
       endpoints: expect.arrayContaining([
         expect.objectContaining({
           path: "/v1/dns",
-          priceUsdc: "0.003",
+          priceUsdc: "0.001",
+          pricePerUnitUsdc: "0.001",
+          priceUnit: "record type",
         }),
       ]),
     });
@@ -0,0 +1,191 @@
+import { x402Client } from "@x402/core/client";
+import { decodePaymentRequiredHeader, decodePaymentResponseHeader, encodePaymentSignatureHeader } from "@x402/core/http";
+import type { FacilitatorClient } from "@x402/core/server";
+import { ExactEvmScheme } from "@x402/evm/exact/client";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { startLocalFacilitator } from "./helpers/localFacilitator.js";
+
+const PAYER = "0x3333333333333333333333333333333333333333";
+
+const baseEnv: Record<string, string> = {
+  NODE_ENV: "test",
+  CHAIN_ID: "8453",
+  BASE_RPC_URL: "https://mainnet.base.org",
+  USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+  PRICE_USDC: "0.01",
+  SERVICE_NAME: "x402-template-test",
+  PUBLIC_BASE_URL: "http://127.0.0.1",
+  X402_DEV_BYPASS: "false",
+  LOG_LEVEL: "silent",
+};
+
+// Accepts every payment; the tests here only cover how the service talks to a remote facilitator.
+const acceptingClient: FacilitatorClient = {
+  getSupported: async () => ({
+    kinds: [{ x402Version: 2, scheme: "exact", network: "eip155:8453" }],
+    extensions: [],
+    signers: {},
+  }),
+  verify: async () => ({ isValid: true, payer: PAYER }),
+  settle: async (_payload, requirements) => ({
+    success: true,
+    transaction: "0xfeed",
+    network: requirements.network,
+    payer: PAYER,
+  }),
+};
+
+describe("facilitator modes", () => {
+  it("requires SELLER_PRIVATE_KEY only in self mode", () => {
+    expect(() => loadConfig(baseEnv)).toThrow(/SELLER_PRIVATE_KEY/);
+
+    const config = loadConfig({
+      ...baseEnv,
+      FACILITATOR_MODE: "remote",
+      FACILITATOR_URL: "https://facilitator.example/",
+      FACILITATOR_AUTH_HEADERS: '{"authorization":"Bearer secret"}',
+    });
+    expect(config).toMatchObject({
+      facilitatorMode: "remote",
+      facilitatorUrl: "https://facilitator.example",
+      facilitatorAuthHeaders: { authorization: "Bearer secret" },
+      sellerPrivateKey: undefined,
+    });
+
+    expect(() => loadConfig({ ...baseEnv, FACILITATOR_MODE: "hosted" })).toThrow(/FACILITATOR_MODE/);
+    expect(() => loadConfig({ ...baseEnv, FACILITATOR_MODE: "remote", FACILITATOR_AUTH_HEADERS: "[]" })).toThrow(
+      /FACILITATOR_AUTH_HEADERS/,
+    );
+  });
+
+  it("verifies and settles through a remote facilitator with auth headers", async () => {
+    const facilitator = await startLocalFacilitator(acceptingClient);
+    const app = await buildApp(
+      loadConfig({
+        ...baseEnv,
+        FACILITATOR_MODE: "remote",
+        FACILITATOR_URL: facilitator.url,
+        FACILITATOR_AUTH_HEADERS: '{"authorization":"Bearer secret"}',
+      }),
+    );
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+    expect(catalog.json()).toMatchObject({
+      x402: { facilitatorMode: "remote", facilitatorUrl: facilitator.url },
+    });
+
+    const request = (headers: Record<string, string>) =>
+      app.inject({
+        method: "POST",
+        url: "/v1/echo",
+        headers: { "content-type": "application/json", ...headers },
+        payload: { ping: "pong" },
+      });
+
+    const challenge = await request({ "idempotency-key": "remote-402" });
+    expect(challenge.statusCode).toBe(402);
+    const paymentRequired = decodePaymentRequiredHeader(String(challenge.headers["payment-required"]));
+
+    const paid = await request({
+      "idempotency-key": "remote-200",
+      "payment-signature": encodePaymentSignatureHeader({
+        x402Version: 2,
+        resource: paymentRequired.resource,
+        accepted: paymentRequired.accepts[0]!,
+        payload: { authorization: { from: PAYER }, signature: "0x" },
+      }),
+    });
+
+    expect(paid.statusCode).toBe(200);
+    expect(paid.json()).toMatchObject({ receipt: { amount: "0.01", payer: PAYER } });
+    expect(decodePaymentResponseHeader(String(paid.headers["payment-response"]))).toMatchObject({
+      success: true,
+      transaction: "0xfeed",
+    });
+
+    expect(facilitator.requests.map((entry) => entry.path)).toEqual(["/supported", "/verify", "/settle"]);
+    for (const entry of facilitator.requests) {
+      expect(entry.headers.authorization).toBe("Bearer secret");
+    }
+
+    await app.close();
+    await facilitator.close();
+  });
+
+  it("does not advertise a facilitator URL in self mode", async () => {
+    const app = await buildApp(
+      loadConfig({
+        ...baseEnv,
+        SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+      }),
+    );
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+    const { x402 } = catalog.json() as { x402: Record<string, string> };
+    expect(x402.facilitatorMode).toBe("self");
+    expect(x402.facilitatorUrl).toBeUndefined();
+
+    await app.close();
+  });
+
+  it("runs the real handshake in local mode with an unfunded throwaway wallet", async () => {
+    expect(() => loadConfig({ ...baseEnv, NODE_ENV: "production", FACILITATOR_MODE: "local" })).toThrow(/FACILITATOR_MODE=local/);
+
+    const app = await buildApp(loadConfig({ ...baseEnv, FACILITATOR_MODE: "local" }));
+    const request = (headers: Record<string, string>) =>
+      app.inject({
+        method: "POST",
+        url: "/v1/echo",
+        headers: { "content-type": "application/json", "idempotency-key": "local-mode", ...headers },
+        payload: { ping: "pong" },
+      });
+
+    const challenge = await request({});
+    expect(challenge.statusCode).toBe(402);
+    const paymentRequired = decodePaymentRequiredHeader(String(challenge.headers["payment-required"]));
+    expect(paymentRequired.accepts[0]).toMatchObject({
+      scheme: "exact",
+      network: "eip155:8453",
+      amount: "10000",
+      asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      payTo: "0x1111111111111111111111111111111111111111",
+    });
+
+    const account = privateKeyToAccount(generatePrivateKey());
+    const buyer = new x402Client().register("eip155:*", new ExactEvmScheme(account));
+    const paid = await request({
+      "payment-signature": encodePaymentSignatureHeader(await buyer.createPaymentPayload(paymentRequired)),
+    });
+
+    expect(paid.statusCode).toBe(200);
+    const { receipt } = paid.json();
+    expect(receipt).toMatchObject({ payer: account.address, amount: "0.01" });
+    expect(receipt.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    const lookup = await app.inject({
+      method: "GET",
+      url: `/v1/receipts/${paid.json().data.request_id}`,
+      headers: { "x-receipt-token": receipt.statusToken },
+    });
+    expect(lookup.json()).toMatchObject({ status: "confirmed", txHash: receipt.txHash, payer: account.address });
+    expect(lookup.json().blockNumber).toBeGreaterThan(0);
+
+    const forged = await request({
+      "idempotency-key": "local-mode-forged",
+      "payment-signature": encodePaymentSignatureHeader({
+        x402Version: 2,
+        resource: paymentRequired.resource,
+        accepted: paymentRequired.accepts[0]!,
+        payload: { authorization: { from: account.address }, signature: "0x" },
+      }),
+    });
+    expect(forged.statusCode).toBe(402);
+
+    await app.close();
+  });
+});
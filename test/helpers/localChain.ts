@@ -0,0 +1,108 @@
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+
+import solc from "solc";
+import {
+  createTestClient,
+  getContract,
+  http,
+  parseAbi,
+  publicActions,
+  walletActions,
+  type Abi,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+
+// Anvil's first default account, which deploys the test USDC and mints from it.
+const DEPLOYER = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+const TEST_USDC_ABI = parseAbi([
+  "function balanceOf(address) view returns (uint256)",
+  "function mint(address to, uint256 value)",
+]);
+
+export interface LocalChain {
+  url: string;
+  usdc: `0x${string}`;
+  fund: (address: `0x${string}`, usdc: bigint) => Promise<void>;
+  usdcBalance: (address: `0x${string}`) => Promise<bigint>;
+  close: () => Promise<void>;
+}
+
+interface CompiledContract {
+  abi: Abi;
+  bytecode: Hex;
+  deployedBytecode: Hex;
+}
+
+// Compiles test/fixtures/<name>.sol, which must define a contract called <name>.
+async function compileFixture(name: string): Promise<CompiledContract> {
+  const source = await readFile(new URL(`../fixtures/${name}.sol`, import.meta.url), "utf8");
+  const output = JSON.parse(
+    solc.compile(
+      JSON.stringify({
+        language: "Solidity",
+        sources: { [name]: { content: source } },
+        settings: { outputSelection: { "*": { "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object"] } } },
+      }),
+    ),
+  );
+  const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === "error");
+  if (errors.length > 0) throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join("\n"));
+  const contract = output.contracts[name][name];
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}`, deployedBytecode: `0x${contract.evm.deployedBytecode.object}` };
+}
+
+// Runs anvil as chain 8453 with a minimal EIP-3009 USDC (named like Base's, so signatures use the same
+// domain) and Multicall3 at its canonical address, so payouts can be sent for real without Base.
+export async function startLocalChain(): Promise<LocalChain> {
+  const anvil = spawn("node_modules/.bin/anvil", ["--chain-id", "8453", "--port", "0"], {
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      if (anvil.exitCode !== null) return resolve();
+      anvil.once("exit", () => resolve());
+      anvil.kill("SIGTERM");
+    });
+
+  try {
+    const url = await new Promise<string>((resolve, reject) => {
+      let output = "";
+      anvil.stdout.on("data", (chunk: Buffer) => {
+        output += chunk.toString();
+        const listening = /Listening on (\S+)/.exec(output);
+        if (listening) resolve(`http://${listening[1]}`);
+      });
+      anvil.once("error", reject);
+      anvil.once("exit", (code) => reject(new Error(`anvil exited with code ${code}`)));
+    });
+
+    const client = createTestClient({ account: DEPLOYER, chain: base, mode: "anvil", transport: http(url) })
+      .extend(publicActions)
+      .extend(walletActions);
+
+    const multicall = await compileFixture("Multicall3");
+    await client.setCode({ address: base.contracts.multicall3.address, bytecode: multicall.deployedBytecode });
+
+    const testUsdc = await compileFixture("TestUsdc");
+    const hash = await client.deployContract({ abi: testUsdc.abi, bytecode: testUsdc.bytecode, args: ["USD Coin", "2"] });
+    const { contractAddress } = await client.waitForTransactionReceipt({ hash });
+    const usdc = getContract({ address: contractAddress!, abi: TEST_USDC_ABI, client });
+
+    return {
+      url,
+      usdc: usdc.address,
+      fund: async (address, amount) => {
+        await client.setBalance({ address, value: 10n ** 18n });
+        await client.waitForTransactionReceipt({ hash: await usdc.write.mint([address, amount]) });
+      },
+      usdcBalance: (address) => usdc.read.balanceOf([address]),
+      close: stop,
+    };
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import type { IncomingHttpHeaders } from "node:http";
+
+import type { FacilitatorClient } from "@x402/core/server";
+import type { PaymentPayload, PaymentRequirements } from "@x402/core/types";
+import Fastify from "fastify";
+
+export interface LocalFacilitatorRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+}
+
+export interface LocalFacilitator {
+  url: string;
+  requests: LocalFacilitatorRequest[];
+  close: () => Promise<void>;
+}
+
+interface FacilitatorRequestBody {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+}
+
+// Serves any FacilitatorClient over the HTTP facilitator API (/supported, /verify, /settle) on a
+// loopback port, so FACILITATOR_MODE=remote can be exercised without a hosted facilitator.
+export async function startLocalFacilitator(client: FacilitatorClient): Promise<LocalFacilitator> {
+  const app = Fastify();
+  const requests: LocalFacilitatorRequest[] = [];
+
+  app.addHook("preHandler", async (request) => {
+    requests.push({ path: request.url, headers: request.headers, body: request.body });
+  });
+
+  app.get("/supported", async () => client.getSupported());
+
+  app.post<{ Body: FacilitatorRequestBody }>("/verify", async (request) =>
+    client.verify(request.body.paymentPayload, request.body.paymentRequirements),
+  );
+
+  app.post<{ Body: FacilitatorRequestBody }>("/settle", async (request) =>
+    client.settle(request.body.paymentPayload, request.body.paymentRequirements),
+  );
+
+  const url = await app.listen({ host: "127.0.0.1", port: 0 });
+
+  return {
+    url,
+    requests,
+    close: async () => {
+      await app.close();
+    },
+  };
+}
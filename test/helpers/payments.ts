@@ -0,0 +1,82 @@
+import { x402Client } from "@x402/core/client";
+import { decodePaymentRequiredHeader, encodePaymentSignatureHeader } from "@x402/core/http";
+import type { PaymentPayload } from "@x402/core/types";
+import { ExactEvmScheme } from "@x402/evm/exact/client";
+import type { FastifyInstance } from "fastify";
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { expect } from "vitest";
+
+import type { AppConfig } from "../../src/config.js";
+import { creditAuthMessage } from "../../src/lib/credits.js";
+import { createFakeFacilitator, type FakeFacilitator } from "../../src/x402/fakeFacilitator.js";
+
+export const RECEIVER = "0x1111111111111111111111111111111111111111";
+
+export const testEnv: Record<string, string> = {
+  NODE_ENV: "test",
+  CHAIN_ID: "8453",
+  BASE_RPC_URL: "https://mainnet.base.org",
+  SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  RECEIVER_ADDRESS: RECEIVER,
+  PRICE_USDC: "0.01",
+  SERVICE_NAME: "x402-template-test",
+  PUBLIC_BASE_URL: "http://127.0.0.1",
+  X402_DEV_BYPASS: "false",
+  LOG_LEVEL: "silent",
+};
+
+export interface TestRequest {
+  method: "GET" | "POST";
+  url: string;
+  headers: Record<string, string>;
+  payload?: Record<string, unknown>;
+}
+
+export interface TestBuyer {
+  account: PrivateKeyAccount;
+  client: x402Client;
+  facilitator: FakeFacilitator;
+}
+
+// A throwaway wallet, funded with `balance` USDC base units on a fake facilitator for the config's networks.
+export function createTestBuyer(config: AppConfig, balance = "1000000"): TestBuyer {
+  const account = privateKeyToAccount(generatePrivateKey());
+  return {
+    account,
+    client: new x402Client().register("eip155:*", new ExactEvmScheme(account)),
+    facilitator: createFakeFacilitator({ networks: config.acceptedNetworks, balances: { [account.address]: balance } }),
+  };
+}
+
+export function postJson(url: string, idempotencyKey: string, payload: Record<string, unknown> = {}): TestRequest {
+  return { method: "POST", url, headers: { "content-type": "application/json", "idempotency-key": idempotencyKey }, payload };
+}
+
+// Sends the request unpaid and signs the payment its 402 asks for.
+export async function signChallenge(app: FastifyInstance, client: x402Client, request: TestRequest): Promise<PaymentPayload> {
+  const challenge = await app.inject(request);
+  expect(challenge.statusCode).toBe(402);
+  return client.createPaymentPayload(decodePaymentRequiredHeader(String(challenge.headers["payment-required"])));
+}
+
+export function withPayment(request: TestRequest, payment: PaymentPayload): TestRequest {
+  return { ...request, headers: { ...request.headers, "payment-signature": encodePaymentSignatureHeader(payment) } };
+}
+
+// The whole 402, sign and retry handshake. `paid` is the signed request, for replays.
+export async function payFor(app: FastifyInstance, client: x402Client, request: TestRequest) {
+  const payment = await signChallenge(app, client, request);
+  const paid = withPayment(request, payment);
+  return { payment, paid, response: await app.inject(paid) };
+}
+
+// Proves a wallet for credits and access passes without a credit token.
+export async function creditSignatureHeaders(account: PrivateKeyAccount, method: string, path: string, idempotencyKey = "") {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    "x-credit-wallet": account.address,
+    "x-credit-timestamp": timestamp,
+    "x-credit-signature": await account.signMessage({ message: creditAuthMessage(method, path, idempotencyKey, timestamp) }),
+  };
+}
@@ -1,7 +1,12 @@
 import { describe, expect, it } from "vitest";
 
+import { privateKeyToAccount } from "viem/accounts";
+
 import { buildApp } from "../src/app.js";
 import { loadConfig } from "../src/config.js";
+import { MemoryCreditStore } from "../src/lib/credits.js";
+import { AppError } from "../src/lib/errors.js";
+import { definePaidRoute } from "../src/routes/paidRoute.js";
 
 function setEnv(): void {
   const defaults: Record<string, string> = {
@@ -23,7 +28,7 @@ function setEnv(): void {
 }
 
 describe("idempotency", () => {
-  it("rejects replay with IDEMPOTENCY_REPLAY", async () => {
+  it("replays the stored response for a repeated key", async () => {
     setEnv();
     const app = await buildApp(loadConfig());
 
@@ -40,6 +45,7 @@ describe("idempotency", () => {
       payload: { hello: "world" },
     });
     expect(first.statusCode).toBe(200);
+    expect(first.headers["idempotent-replayed"]).toBeUndefined();
 
     const second = await app.inject({
       method: "POST",
@@ -47,13 +53,125 @@ describe("idempotency", () => {
       headers,
       payload: { hello: "world" },
     });
-    expect(second.statusCode).toBe(409);
-    expect(second.json()).toMatchObject({
-      ok: false,
-      error: {
-        code: "IDEMPOTENCY_REPLAY",
+    expect(second.statusCode).toBe(200);
+    expect(second.headers["idempotent-replayed"]).toBe("true");
+    expect(second.headers["cache-control"]).toBe("no-store");
+    expect(second.json()).toEqual(first.json());
+
+    await app.close();
+  });
+
+  it("does not store failed responses", async () => {
+    setEnv();
+    const app = await buildApp(loadConfig());
+
+    const request = {
+      method: "POST" as const,
+      url: "/v1/echo",
+      headers: { "content-type": "application/json", "idempotency-key": "idem-2" },
+      payload: { hello: "world" },
+    };
+
+    expect((await app.inject(request)).statusCode).toBe(402);
+    const paid = await app.inject({ ...request, headers: { ...request.headers, "x-dev-bypass": "true" } });
+    expect(paid.statusCode).toBe(200);
+    expect(paid.headers["idempotent-replayed"]).toBeUndefined();
+
+    await app.close();
+  });
+
+  it("scopes keys by payer and route and rejects a changed body", async () => {
+    setEnv();
+    const credits = new MemoryCreditStore();
+    const app = await buildApp(loadConfig(), { credits });
+    const alice = privateKeyToAccount("0x2222222222222222222222222222222222222222222222222222222222222222").address;
+    const bob = privateKeyToAccount("0x3333333333333333333333333333333333333333333333333333333333333333").address;
+    await credits.credit(alice, 100000n);
+    await credits.credit(bob, 100000n);
+    const aliceToken = await credits.issueToken(alice);
+    const bobToken = await credits.issueToken(bob);
+
+    const call = (token: string, url: string, payload: Record<string, string>) =>
+      app.inject({
+        method: "POST",
+        url,
+        headers: { "content-type": "application/json", "idempotency-key": "shared-key", "x-credit-token": token },
+        payload,
+      });
+
+    const aliceEcho = await call(aliceToken, "/v1/echo", { text: "hello", lang: "en" });
+    const bobEcho = await call(bobToken, "/v1/echo", { text: "hello", lang: "en" });
+    const aliceSentiment = await call(aliceToken, "/v1/sentiment", { text: "hello" });
+    for (const response of [aliceEcho, bobEcho, aliceSentiment]) {
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["idempotent-replayed"]).toBeUndefined();
+    }
+
+    const retry = await call(aliceToken, "/v1/echo", { lang: "en", text: "hello" });
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.json()).toEqual(aliceEcho.json());
+
+    const changed = await call(aliceToken, "/v1/echo", { text: "goodbye" });
+    expect(changed.statusCode).toBe(422);
+    expect(changed.json()).toMatchObject({ ok: false, error: { code: "IDEMPOTENCY_MISMATCH" } });
+
+    expect(await credits.balance(alice)).toBe(100000n - 10000n - 2000n);
+    expect(await credits.balance(bob)).toBe(90000n);
+
+    await app.close();
+  });
+
+  it("turns away concurrent duplicates and frees the key when the first request fails", async () => {
+    setEnv();
+    let release: () => void = () => {};
+    let entered: () => void = () => {};
+    const handlerEntered = new Promise<void>((resolve) => {
+      entered = resolve;
+    });
+    let calls = 0;
+    const slowRoute = definePaidRoute<{ n: number }, { calls: number }>({
+      name: "slow",
+      description: "Waits for the test before answering",
+      price: "0.01",
+      bodySchema: { type: "object", properties: { n: { type: "number" } } },
+      dataSchema: { properties: { calls: { type: "number" } } },
+      docs: { data: { calls: "Handler invocations" } },
+      handler: async () => {
+        calls += 1;
+        if (calls === 1) {
+          throw new AppError(502, "INTERNAL_ERROR", "First attempt fails");
+        }
+        entered();
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        return { calls };
       },
     });
+    const app = await buildApp(loadConfig(), { paidRoutes: [slowRoute] });
+
+    const call = () =>
+      app.inject({
+        method: "POST",
+        url: "/v1/slow",
+        headers: { "content-type": "application/json", "idempotency-key": "slow-1", "x-dev-bypass": "true" },
+        payload: { n: 1 },
+      });
+
+    expect((await call()).statusCode).toBe(502);
+
+    const first = call();
+    await handlerEntered;
+    const duplicate = await call();
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.headers["retry-after"]).toBe("1");
+    expect(duplicate.json()).toMatchObject({ ok: false, error: { code: "IDEMPOTENCY_IN_PROGRESS" } });
+
+    release();
+    expect((await first).statusCode).toBe(200);
+    const replay = await call();
+    expect(replay.headers["idempotent-replayed"]).toBe("true");
+    expect(calls).toBe(2);
 
     await app.close();
   });
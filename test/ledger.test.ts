@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { SqliteLedger, toCsv, type LedgerEntry } from "../src/lib/ledger.js";
+import { createTestBuyer, payFor, postJson, testEnv } from "./helpers/payments.js";
+
+const env: Record<string, string> = { ...testEnv, ADMIN_TOKEN: "admin-secret" };
+
+function entry(overrides: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    requestId: "req-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    route: "/v1/echo",
+    paidMode: "x402",
+    payer: "0xAbC0000000000000000000000000000000000001",
+    receiver: "0x1111111111111111111111111111111111111111",
+    amount: "0.01",
+    network: "eip155:8453",
+    txHash: "0xfeed",
+    idempotencyKey: "key-1",
+    status: 200,
+    outcome: "settled",
+    ...overrides,
+  };
+}
+
+describe("payment ledger", () => {
+  it("persists entries in SQLite and filters by payer, route and time range", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ledger-"));
+    const path = join(dir, "nested", "ledger.db");
+
+    const writer = new SqliteLedger(path);
+    await writer.record(entry({ requestId: "a" }));
+    await writer.record(entry({ requestId: "b", route: "/v1/dns", createdAt: "2026-01-02T00:00:00.000Z" }));
+    await writer.record(entry({ requestId: "c", payer: "0x2222222222222222222222222222222222222222", createdAt: "2026-01-03T00:00:00.000Z" }));
+    await writer.close();
+
+    const ledger = new SqliteLedger(path);
+    const ids = async (filter: Parameters<SqliteLedger["query"]>[0]) => (await ledger.query(filter)).map((e) => e.requestId);
+
+    expect(await ids({})).toEqual(["c", "b", "a"]);
+    expect(await ids({ payer: "0xabc0000000000000000000000000000000000001" })).toEqual(["b", "a"]);
+    expect(await ids({ route: "/v1/dns" })).toEqual(["b"]);
+    expect(await ids({ from: new Date("2026-01-02T00:00:00Z"), to: new Date("2026-01-02T23:59:59Z") })).toEqual(["b"]);
+    expect(await ids({ limit: 1 })).toEqual(["c"]);
+    expect((await ledger.query({ route: "/v1/echo" }))[1]).toEqual(entry({ requestId: "a" }));
+    await expect(ledger.record(entry({ requestId: "a", payer: "0x2222222222222222222222222222222222222222" }))).rejects.toThrow(
+      /UNIQUE constraint failed/,
+    );
+    expect((await ledger.get("a"))?.payer).toBe(entry({}).payer);
+
+    await ledger.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("exports CSV with quoting and formula-safe fields", () => {
+    const csv = toCsv([entry({ idempotencyKey: '=HYPERLINK("x"),1' })]);
+
+    expect(csv.split("\r\n")).toEqual([
+      "requestId,createdAt,route,paidMode,payer,receiver,amount,network,txHash,idempotencyKey,status,outcome",
+      'req-1,2026-01-01T00:00:00.000Z,/v1/echo,x402,0xAbC0000000000000000000000000000000000001,0x1111111111111111111111111111111111111111,0.01,eip155:8453,0xfeed,"\'=HYPERLINK(""x""),1",200,settled',
+      "",
+    ]);
+  });
+
+  it("records settled payments and serves them to admins only", async () => {
+    const config = loadConfig(env);
+    const { account, client, facilitator } = createTestBuyer(config, "50000");
+    const app = await buildApp(config, { facilitatorClient: facilitator });
+
+    // A client-chosen X-Request-Id must not become the ledger key.
+    const request = postJson("/v1/echo", "ledger-200", { ping: "pong" });
+    const { response: paid } = await payFor(app, client, { ...request, headers: { ...request.headers, "x-request-id": "req-1" } });
+    expect(paid.statusCode).toBe(200);
+    const requestId = paid.json().data.request_id;
+    expect(requestId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(paid.headers["x-request-id"]).toBe(requestId);
+
+    expect((await app.inject({ method: "GET", url: "/admin/ledger" })).statusCode).toBe(401);
+    expect(
+      (await app.inject({ method: "GET", url: "/admin/ledger", headers: { authorization: "Bearer wrong" } })).json(),
+    ).toMatchObject({ ok: false, error: { code: "UNAUTHORIZED" } });
+
+    const admin = { authorization: "Bearer admin-secret" };
+    const ledger = await app.inject({ method: "GET", url: `/admin/ledger?payer=${account.address}&route=/v1/echo`, headers: admin });
+    expect(ledger.statusCode).toBe(200);
+    expect(ledger.json().entries).toEqual([
+      expect.objectContaining({
+        requestId,
+        route: "/v1/echo",
+        paidMode: "x402",
+        payer: account.address,
+        amount: "0.01",
+        network: "eip155:8453",
+        txHash: facilitator.settlements[0]?.transaction,
+        idempotencyKey: "ledger-200",
+        status: 200,
+        outcome: "settled",
+      }),
+    ]);
+
+    const future = await app.inject({ method: "GET", url: "/admin/ledger?from=2999-01-01T00:00:00Z", headers: admin });
+    expect(future.json().entries).toEqual([]);
+    expect((await app.inject({ method: "GET", url: "/admin/ledger?from=yesterday", headers: admin })).statusCode).toBe(400);
+
+    const csv = await app.inject({ method: "GET", url: "/admin/ledger.csv", headers: admin });
+    expect(csv.headers["content-type"]).toContain("text/csv");
+    expect(csv.body.split("\r\n")).toHaveLength(3);
+
+    await app.close();
+  });
+
+  it("does not expose admin routes without ADMIN_TOKEN", async () => {
+    const app = await buildApp(loadConfig({ ...env, ADMIN_TOKEN: "" }));
+
+    expect((await app.inject({ method: "GET", url: "/admin/ledger" })).statusCode).toBe(404);
+
+    await app.close();
+  });
+});
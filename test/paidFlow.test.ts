@@ -0,0 +1,214 @@
+import type { x402Client } from "@x402/core/client";
+import { decodePaymentResponseHeader, encodePaymentSignatureHeader } from "@x402/core/http";
+import type { FastifyInstance } from "fastify";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { AppError } from "../src/lib/errors.js";
+import { definePaidRoute, type PaidRouteDefinition } from "../src/routes/paidRoute.js";
+import type { FakeFacilitator } from "../src/x402/fakeFacilitator.js";
+import { createTestBuyer, postJson, RECEIVER, signChallenge, testEnv } from "./helpers/payments.js";
+
+let app: FastifyInstance | undefined;
+
+function failingRoute(name: string, settlement?: "always") {
+  return definePaidRoute<{ ping: string }, { ok: boolean }>({
+    name,
+    description: "Fails after payment is verified",
+    price: "0.01",
+    settlement,
+    bodySchema: { type: "object", properties: { ping: { type: "string" } } },
+    dataSchema: { properties: { ok: { type: "boolean" } } },
+    docs: { data: { ok: "Never returned" } },
+    handler: () => {
+      throw new AppError(502, "INTERNAL_ERROR", "Upstream fetch failed");
+    },
+  });
+}
+
+const defaultedRoute = definePaidRoute<{ ping: string; mode: string }, { mode: string }>({
+  name: "defaulted",
+  description: "Fills a schema default",
+  price: "0.01",
+  bodySchema: { type: "object", properties: { ping: { type: "string" }, mode: { type: "string", default: "fast" } } },
+  dataSchema: { properties: { mode: { type: "string" } } },
+  docs: { data: { mode: "The defaulted mode" } },
+  handler: (request) => ({ mode: request.body.mode }),
+});
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+});
+
+async function setup(
+  paidRoutes?: PaidRouteDefinition[],
+): Promise<{ app: FastifyInstance; facilitator: FakeFacilitator; buyer: x402Client; buyerAddress: string }> {
+  const config = loadConfig(testEnv);
+  const { account, client, facilitator } = createTestBuyer(config, "50000");
+  app = await buildApp(config, { facilitatorClient: facilitator, paidRoutes });
+
+  return { app, facilitator, buyer: client, buyerAddress: account.address };
+}
+
+const echo = (idempotencyKey: string, url = "/v1/echo") => postJson(url, idempotencyKey, { ping: "pong" });
+
+function postEcho(target: FastifyInstance, idempotencyKey: string, paymentSignature?: string, url = "/v1/echo") {
+  return target.inject({
+    method: "POST",
+    url,
+    headers: {
+      "content-type": "application/json",
+      "idempotency-key": idempotencyKey,
+      ...(paymentSignature ? { "payment-signature": paymentSignature } : {}),
+    },
+    payload: { ping: "pong" },
+  });
+}
+
+describe("paid flow with the fake facilitator", () => {
+  it("verifies a signed EIP-3009 authorization, runs the route and settles", async () => {
+    const { app, facilitator, buyer, buyerAddress } = await setup();
+    const payment = await signChallenge(app, buyer, echo("flow-402"));
+
+    const response = await postEcho(app, "flow-200", encodePaymentSignatureHeader(payment));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      ok: true,
+      receipt: { amount: "0.01", payer: buyerAddress, receiver: RECEIVER },
+    });
+
+    const settlement = decodePaymentResponseHeader(String(response.headers["payment-response"]));
+    expect(settlement).toMatchObject({ success: true, payer: buyerAddress, network: "eip155:8453" });
+    expect(settlement.transaction).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(facilitator.settlements).toHaveLength(1);
+    expect(facilitator.settlements[0]?.transaction).toBe(settlement.transaction);
+    expect(response.json().receipt.txHash).toBe(settlement.transaction);
+
+    expect(facilitator.balanceOf(buyerAddress)).toBe(40000n);
+    expect(facilitator.balanceOf(RECEIVER)).toBe(10000n);
+  });
+
+  it("replays a settled response for a retried key without charging again", async () => {
+    const { app, facilitator, buyer } = await setup();
+    const header = encodePaymentSignatureHeader(await signChallenge(app, buyer, echo("retry-402")));
+
+    const first = await postEcho(app, "retry-200", header);
+    const retry = await postEcho(app, "retry-200", header);
+
+    expect(retry.statusCode).toBe(200);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.headers["payment-response"]).toBe(first.headers["payment-response"]);
+    expect(retry.json()).toEqual(first.json());
+
+    const freshPayment = encodePaymentSignatureHeader(await signChallenge(app, buyer, echo("retry-402b")));
+    const repaid = await postEcho(app, "retry-200", freshPayment);
+    expect(repaid.headers["idempotent-replayed"]).toBe("true");
+    expect(repaid.json()).toEqual(first.json());
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("replays a retried payment on routes whose schema rewrites the body", async () => {
+    const { app, facilitator, buyer } = await setup([defaultedRoute]);
+    const header = encodePaymentSignatureHeader(await signChallenge(app, buyer, echo("defaulted-402", "/v1/defaulted")));
+
+    const first = await postEcho(app, "defaulted-200", header, "/v1/defaulted");
+    const retry = await postEcho(app, "defaulted-200", header, "/v1/defaulted");
+
+    expect(first.json().data.mode).toBe("fast");
+    expect(retry.statusCode).toBe(200);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.json()).toEqual(first.json());
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("rejects a reused authorization nonce", async () => {
+    const { app, facilitator, buyer } = await setup();
+    const header = encodePaymentSignatureHeader(await signChallenge(app, buyer, echo("nonce-402")));
+
+    expect((await postEcho(app, "nonce-200", header)).statusCode).toBe(200);
+    const replay = await postEcho(app, "nonce-replay", header);
+
+    expect(replay.statusCode).toBe(402);
+    expect(replay.json()).toMatchObject({ ok: false, error: { code: "PAYMENT_REQUIRED" } });
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("rejects tampered authorizations and unfunded payers", async () => {
+    const { app, facilitator, buyer, buyerAddress } = await setup();
+    const payment = await signChallenge(app, buyer, echo("tamper-402"));
+    const authorization = (payment.payload as { authorization: Record<string, string> }).authorization;
+
+    const redirected = {
+      ...payment,
+      payload: { ...payment.payload, authorization: { ...authorization, to: "0x2222222222222222222222222222222222222222" } },
+    };
+    expect((await postEcho(app, "tamper-to", encodePaymentSignatureHeader(redirected))).statusCode).toBe(402);
+
+    facilitator.fund(buyerAddress, -50000n);
+    expect((await postEcho(app, "tamper-funds", encodePaymentSignatureHeader(payment))).statusCode).toBe(402);
+
+    expect(facilitator.settlements).toHaveLength(0);
+    expect(facilitator.balanceOf(RECEIVER)).toBe(0n);
+  });
+
+  it("does not settle when the handler fails and says so in the error body", async () => {
+    const { app, facilitator, buyer, buyerAddress } = await setup([failingRoute("flaky")]);
+    const payment = await signChallenge(app, buyer, echo("flaky-402", "/v1/flaky"));
+
+    const response = await postEcho(app, "flaky-502", encodePaymentSignatureHeader(payment), "/v1/flaky");
+
+    expect(response.statusCode).toBe(502);
+    expect(response.json()).toEqual({
+      ok: false,
+      error: { code: "INTERNAL_ERROR", message: "Upstream fetch failed" },
+      payment: { charged: false, reason: "Handler responded with 502" },
+    });
+    expect(response.headers["payment-response"]).toBeUndefined();
+    expect(facilitator.settlements).toHaveLength(0);
+    expect(facilitator.balanceOf(buyerAddress)).toBe(50000n);
+  });
+
+  it("settles failed responses for routes with the always policy", async () => {
+    const { app, facilitator, buyer, buyerAddress } = await setup([failingRoute("costly", "always")]);
+    const payment = await signChallenge(app, buyer, echo("costly-402", "/v1/costly"));
+
+    const response = await postEcho(app, "costly-502", encodePaymentSignatureHeader(payment), "/v1/costly");
+
+    expect(response.statusCode).toBe(502);
+    expect(response.json().payment).toEqual({ charged: true, txHash: facilitator.settlements[0]?.transaction });
+    expect(facilitator.balanceOf(buyerAddress)).toBe(40000n);
+  });
+
+  it("reports a failed settlement as uncharged", async () => {
+    let drain = () => {};
+    const { app, facilitator, buyer, buyerAddress } = await setup([
+      definePaidRoute<{ ping: string }, { drained: boolean }>({
+        name: "drain",
+        description: "Spends the buyer's balance before settlement",
+        price: "0.01",
+        bodySchema: { type: "object", properties: { ping: { type: "string" } } },
+        dataSchema: { properties: { drained: { type: "boolean" } } },
+        docs: { data: { drained: "Always true" } },
+        handler: () => {
+          drain();
+          return { drained: true };
+        },
+      }),
+    ]);
+    drain = () => facilitator.fund(buyerAddress, -facilitator.balanceOf(buyerAddress));
+    const payment = await signChallenge(app, buyer, echo("drain-402", "/v1/drain"));
+
+    const response = await postEcho(app, "drain-200", encodePaymentSignatureHeader(payment), "/v1/drain");
+
+    expect(response.statusCode).toBe(402);
+    expect(response.json()).toMatchObject({
+      ok: false,
+      error: { code: "SETTLEMENT_FAILED" },
+      payment: { charged: false },
+    });
+    expect(facilitator.settlements).toHaveLength(0);
+  });
+});
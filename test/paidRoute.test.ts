@@ -0,0 +1,128 @@
+import type { PaymentOption } from "@x402/core/http";
+import type { RouteConfig } from "@x402/core/server";
+import Fastify from "fastify";
+import { describe, expect, it } from "vitest";
+
+import { loadConfig } from "../src/config.js";
+import { createPricingRegistry } from "../src/lib/pricing.js";
+import { registerRequestContext } from "../src/middleware/requestContext.js";
+import { buildRoutesConfig, definePaidRoute, registerPaidRoute, toCatalogEntry } from "../src/routes/paidRoute.js";
+
+function setEnv(): void {
+  const defaults: Record<string, string> = {
+    NODE_ENV: "test",
+    CHAIN_ID: "8453",
+    BASE_RPC_URL: "https://mainnet.base.org",
+    SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+    USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+    PRICE_USDC: "0.01",
+    SERVICE_NAME: "x402-template-test",
+    PUBLIC_BASE_URL: "http://127.0.0.1",
+    X402_DEV_BYPASS: "true",
+  };
+
+  for (const [key, value] of Object.entries(defaults)) {
+    process.env[key] = value;
+  }
+}
+
+const upperRoute = definePaidRoute<{ value: string }, { upper: string }>({
+  name: "upper",
+  description: "Uppercase a string",
+  price: "0.004",
+  bodySchema: {
+    type: "object",
+    properties: {
+      value: { type: "string" },
+    },
+    required: ["value"],
+  },
+  dataSchema: {
+    properties: {
+      upper: { type: "string" },
+    },
+    required: ["upper"],
+  },
+  docs: {
+    body: { value: "string (required)" },
+    data: { upper: "Uppercased value" },
+  },
+  handler: (request) => ({ upper: request.body.value.toUpperCase() }),
+});
+
+describe("definePaidRoute", () => {
+  it("produces the x402 route config and catalog entry from one definition", async () => {
+    setEnv();
+    const config = loadConfig();
+    const pricing = createPricingRegistry(config, [upperRoute]);
+
+    const routesConfig = buildRoutesConfig([upperRoute], config, pricing) as Record<string, RouteConfig>;
+    const routeConfig = routesConfig["POST /v1/upper"];
+    expect(routeConfig).toMatchObject({
+      accepts: [
+        {
+          scheme: "exact",
+          network: "eip155:8453",
+          payTo: config.network.receiverAddress,
+        },
+      ],
+      description: "Uppercase a string",
+      mimeType: "application/json",
+    });
+
+    const option = (routeConfig?.accepts as PaymentOption[])[0] as PaymentOption;
+    const price = typeof option.price === "function" ? await option.price({ adapter: { getBody: () => ({ value: "abc" }) } } as never) : option.price;
+    expect(price).toEqual({
+      asset: config.network.usdcContract,
+      amount: "4000",
+      extra: { name: "USD Coin", version: "2" },
+    });
+
+    expect(toCatalogEntry(upperRoute, pricing.require("POST", "/v1/upper"), config.acceptedNetworks)).toMatchObject({
+      method: "POST",
+      path: "/v1/upper",
+      priceUsdc: "0.004",
+      accepts: [{ network: "eip155:8453", chainId: 8453, asset: config.network.usdcContract }],
+      body: { value: "string (required)" },
+      response: {
+        "data.upper": "Uppercased value",
+        "data.request_id": "Server-assigned request ID",
+      },
+    });
+  });
+
+  it("registers a route that wraps handler data in the standard receipt envelope", async () => {
+    setEnv();
+    const config = loadConfig();
+    const pricing = createPricingRegistry(config, [upperRoute]);
+    const app = Fastify();
+    await registerRequestContext(app);
+    await app.register(async (v1) => registerPaidRoute(v1, upperRoute, config, pricing), { prefix: "/v1" });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/upper",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "upper-1",
+      },
+      payload: { value: "abc" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      ok: true,
+      data: { upper: "ABC" },
+      receipt: {
+        chainId: 8453,
+        network: "eip155:8453",
+        currency: "USDC",
+        amount: "0.004",
+        receiver: config.network.receiverAddress,
+      },
+    });
+
+    await app.close();
+  });
+});
@@ -0,0 +1,143 @@
+import type { x402Client } from "@x402/core/client";
+import type { FastifyInstance } from "fastify";
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { MemoryPassStore } from "../src/lib/passes.js";
+import { echoRoute } from "../src/routes/v1/echo.js";
+import { definePassRoute } from "../src/routes/v1/passes.js";
+import { sentimentRoute } from "../src/routes/v1/sentiment.js";
+import { createTestBuyer, creditSignatureHeaders, payFor, postJson, testEnv, type TestBuyer } from "./helpers/payments.js";
+
+const twoCallPass = definePassRoute({
+  id: "sentiment-2",
+  description: "2 POST /v1/sentiment calls within an hour",
+  priceUsdc: "0.02",
+  routes: ["POST /v1/sentiment"],
+  durationSeconds: 3600,
+  maxCalls: 2,
+});
+
+let app: FastifyInstance | undefined;
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+});
+
+async function setup(): Promise<TestBuyer & { app: FastifyInstance }> {
+  const config = loadConfig(testEnv);
+  const buyer = createTestBuyer(config);
+  app = await buildApp(config, { facilitatorClient: buyer.facilitator, paidRoutes: [echoRoute, sentimentRoute, twoCallPass] });
+  return { app, ...buyer };
+}
+
+async function buyPass(target: FastifyInstance, client: x402Client) {
+  return (await payFor(target, client, postJson("/v1/passes/sentiment-2", "buy-pass"))).response;
+}
+
+async function postWithPass(
+  target: FastifyInstance,
+  url: string,
+  idempotencyKey: string,
+  token: string,
+  wallet?: PrivateKeyAccount,
+) {
+  return target.inject({
+    method: "POST",
+    url,
+    headers: {
+      "content-type": "application/json",
+      "idempotency-key": idempotencyKey,
+      "x-access-pass": token,
+      ...(wallet ? await creditSignatureHeaders(wallet, "POST", url, idempotencyKey) : {}),
+    },
+    payload: { text: "What a lovely day." },
+  });
+}
+
+describe("access passes", () => {
+  it("sells a wallet-bound pass and counts its calls server-side", async () => {
+    const { app, facilitator, account, client } = await setup();
+
+    const purchase = await buyPass(app, client);
+    expect(purchase.statusCode).toBe(200);
+    expect(purchase.json()).toMatchObject({
+      data: { offer: "sentiment-2", wallet: account.address, routes: ["POST /v1/sentiment"], maxCalls: 2 },
+      receipt: { amount: "0.02", payer: account.address },
+    });
+    const { token, passId } = purchase.json().data;
+
+    const first = await postWithPass(app, "/v1/sentiment", "pass-1", token, account);
+    expect(first.statusCode).toBe(200);
+    expect(first.json().receipt).toMatchObject({
+      amount: "0",
+      payer: account.address,
+      pass: { passId, offer: "sentiment-2", callsUsed: 1, callsRemaining: 1 },
+    });
+    expect((await postWithPass(app, "/v1/sentiment", "pass-2", token, account)).json().receipt.pass.callsRemaining).toBe(0);
+
+    // Without proof of the pass wallet the token alone is worth nothing.
+    const unproven = await postWithPass(app, "/v1/sentiment", "pass-unproven", token);
+    expect(unproven.statusCode).toBe(401);
+    expect(unproven.json().error.message).toBe("Access pass must come with a credit token or signature from its wallet");
+    const stranger = privateKeyToAccount(generatePrivateKey());
+    expect((await postWithPass(app, "/v1/sentiment", "pass-stranger", token, stranger)).statusCode).toBe(401);
+
+    const exhausted = await postWithPass(app, "/v1/sentiment", "pass-3", token, account);
+    expect(exhausted.statusCode).toBe(402);
+    expect(exhausted.json()).toMatchObject({ ok: false, error: { code: "PASS_EXHAUSTED" } });
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("rejects passes that are forged, expired or used on routes they do not cover", async () => {
+    const { app, account } = await setup();
+    const offer = twoCallPass.passOffer!;
+    const { token } = app.passes.issue(offer, account.address);
+
+    const uncovered = await postWithPass(app, "/v1/echo", "uncovered", token, account);
+    expect(uncovered.statusCode).toBe(402);
+    expect(uncovered.json()).toMatchObject({ error: { code: "PASS_INVALID" } });
+
+    const [payload, signature] = token.split(".");
+    const forged = `${payload?.slice(0, -2)}AA.${signature}`;
+    expect((await postWithPass(app, "/v1/sentiment", "forged", forged, account)).statusCode).toBe(401);
+
+    const expired = app.passes.issue(offer, account.address, Date.now() - 2 * 3600 * 1000).token;
+    const response = await postWithPass(app, "/v1/sentiment", "expired", expired, account);
+    expect(response.statusCode).toBe(402);
+    expect(response.json().error.message).toMatch(/expired/);
+  });
+
+  it("does not let concurrent calls go past a pass's allowance", async () => {
+    const store = new MemoryPassStore();
+
+    const calls = await Promise.all([store.consume("pass-1", 2), store.consume("pass-1", 2), store.consume("pass-1", 2)]);
+
+    expect(calls.filter((used) => used !== undefined).sort()).toEqual([1, 2]);
+    expect(await store.usage("pass-1")).toBe(2);
+  });
+
+  it("lists the passes on offer in the catalog", async () => {
+    const { app } = await setup();
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+
+    expect(catalog.json().passes).toEqual([
+      {
+        id: "sentiment-2",
+        description: "2 POST /v1/sentiment calls within an hour",
+        method: "POST",
+        path: "/v1/passes/sentiment-2",
+        url: "http://127.0.0.1/v1/passes/sentiment-2",
+        priceUsdc: "0.02",
+        covers: ["POST /v1/sentiment"],
+        durationSeconds: 3600,
+        maxCalls: 2,
+        header: "X-Access-Pass",
+      },
+    ]);
+  });
+});
@@ -1,7 +1,9 @@
+import { decodePaymentRequiredHeader } from "@x402/core/http";
 import { describe, expect, it } from "vitest";
 
 import { buildApp } from "../src/app.js";
 import { loadConfig } from "../src/config.js";
+import { createFakeFacilitator } from "../src/x402/fakeFacilitator.js";
 
 function applyEnv(overrides: Record<string, string>): void {
   const base: Record<string, string> = {
@@ -76,4 +78,48 @@ describe("payment gate", () => {
 
     await app.close();
   });
+
+  it("describes how to pay in every 402 body", async () => {
+    applyEnv({ X402_DEV_BYPASS: "false", ACCEPTED_CHAIN_IDS: "84532" });
+    const config = loadConfig();
+    const app = await buildApp(config, { facilitatorClient: createFakeFacilitator({ networks: config.acceptedNetworks }) });
+    applyEnv({ X402_DEV_BYPASS: "true", ACCEPTED_CHAIN_IDS: "84532" });
+    const devApp = await buildApp(loadConfig());
+    delete process.env.ACCEPTED_CHAIN_IDS;
+
+    const request = (target: typeof app, headers: Record<string, string> = {}) =>
+      target.inject({
+        method: "POST",
+        url: "/v1/dns",
+        headers: { "content-type": "application/json", "idempotency-key": "rich-402", ...headers },
+        payload: { domain: "example.com", records: ["A", "MX"] },
+      });
+
+    const challenge = await request(app);
+    const malformed = await request(app, { "payment-signature": "not-base64-json" });
+    const devBypass = await request(devApp);
+
+    const { accepts } = decodePaymentRequiredHeader(String(challenge.headers["payment-required"]));
+    expect(accepts).toHaveLength(2);
+    expect(challenge.json()).toMatchObject({
+      ok: false,
+      error: { code: "PAYMENT_REQUIRED", message: "Payment required" },
+      x402Version: 2,
+      accepts,
+      price: { usdc: "0.003", description: "0.003 USDC for this request (0.001 USDC plus 0.001 USDC per record type)" },
+      endpoint: { method: "POST", path: "/v1/dns", priceUnit: "record type" },
+      catalogUrl: "http://127.0.0.1/catalog",
+    });
+    expect(malformed.statusCode).toBe(402);
+    expect(malformed.json().error.code).toBe("PAYMENT_INVALID");
+    expect(devBypass.json().error.message).toBe("Provide x-dev-bypass: true for local bypass");
+
+    const details = { ...challenge.json(), error: undefined };
+    for (const response of [malformed, devBypass]) {
+      expect({ ...response.json(), error: undefined }).toEqual(details);
+    }
+
+    await app.close();
+    await devApp.close();
+  });
 });
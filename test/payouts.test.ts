@@ -0,0 +1,197 @@
+import type { FastifyInstance } from "fastify";
+import { pino } from "pino";
+import { getAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { SqliteLedger, type Ledger, type LedgerEntry } from "../src/lib/ledger.js";
+import { createPayoutJob, PayoutUnconfirmedError, type PayoutBatch } from "../src/lib/payouts.js";
+import { startLocalChain } from "./helpers/localChain.js";
+import { createTestBuyer, payFor, postJson, RECEIVER, testEnv } from "./helpers/payments.js";
+
+const PARTNER_A = getAddress("0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa");
+const PARTNER_B = getAddress("0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb");
+
+const env: Record<string, string> = {
+  ...testEnv,
+  LEDGER_DRIVER: "sqlite",
+  PAYOUT_MIN_USDC: "0.001",
+  REVENUE_SPLITS: JSON.stringify({
+    "POST /v1/echo": [
+      { address: PARTNER_A, percent: 30 },
+      { address: PARTNER_B, percent: 12.5 },
+    ],
+  }),
+};
+
+const log = pino({ level: "silent" });
+
+let app: FastifyInstance | undefined;
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+});
+
+function recordingTransfer(batches: PayoutBatch[]) {
+  return async (batch: PayoutBatch) => {
+    batches.push(batch);
+    return `0x${String(batches.length).padStart(64, "0")}`;
+  };
+}
+
+function settledEntry(requestId: string, amount: string, splits: LedgerEntry["splits"]): LedgerEntry {
+  return {
+    requestId,
+    createdAt: new Date().toISOString(),
+    route: "/v1/echo",
+    paidMode: "x402",
+    payer: "0x3333333333333333333333333333333333333333",
+    receiver: RECEIVER,
+    amount,
+    network: "eip155:8453",
+    txHash: `0x${"ab".repeat(32)}`,
+    idempotencyKey: requestId,
+    status: 200,
+    outcome: "settled",
+    splits,
+  };
+}
+
+describe("revenue splits", () => {
+  it("records each receiver's share on the receipt and in the ledger", async () => {
+    const config = loadConfig(env);
+    const { client, facilitator } = createTestBuyer(config);
+    const ledger = new SqliteLedger(":memory:");
+    app = await buildApp(config, { facilitatorClient: facilitator, ledger });
+
+    const { payment, response } = await payFor(app, client, postJson("/v1/echo", "split-test", { hello: "world" }));
+    expect(payment.accepted.payTo).toBe(RECEIVER);
+
+    const { data, receipt } = response.json();
+    const splits = [
+      { receiver: RECEIVER, percent: 57.5, amount: "0.00575" },
+      { receiver: PARTNER_A, percent: 30, amount: "0.003" },
+      { receiver: PARTNER_B, percent: 12.5, amount: "0.00125" },
+    ];
+    expect(receipt.splits).toEqual(splits);
+    expect((await ledger.get(data.request_id))?.splits).toEqual(splits.map((split) => ({ ...split, payout: "" })));
+  });
+
+  it("rejects split rules that do not add up or name unpaid routes", async () => {
+    const splits = (rules: unknown) => ({ ...env, REVENUE_SPLITS: JSON.stringify(rules) });
+
+    expect(() => loadConfig(splits({ "POST /v1/echo": [{ address: PARTNER_A, percent: 60 }, { address: PARTNER_B, percent: 41 }] }))).toThrow(
+      "add up to more than 100 percent",
+    );
+    expect(() => loadConfig(splits({ "POST /v1/echo": [{ address: RECEIVER, percent: 10 }] }))).toThrow("names the primary receiver");
+    expect(() => loadConfig(splits({ "POST /v1/echo": [{ address: PARTNER_A, percent: 0.001 }] }))).toThrow("at most two decimals");
+    await expect(buildApp(loadConfig(splits({ "POST /v1/nope": [{ address: PARTNER_A, percent: 10 }] })))).rejects.toThrow(
+      "REVENUE_SPLITS names routes that are not paid: POST /v1/nope",
+    );
+  });
+});
+
+describe("payout job", () => {
+  it("only sends payouts from the key that receives settlements", () => {
+    expect(() => createPayoutJob(loadConfig(env), new SqliteLedger(":memory:"), log)).toThrow(
+      "Payouts are sent from SELLER_PRIVATE_KEY, which does not control the base receiver",
+    );
+  });
+
+  async function ledgerWithShares(): Promise<Ledger> {
+    const ledger = new SqliteLedger(":memory:");
+    const shares = (amounts: [string, string, string]) => [
+      { receiver: RECEIVER, percent: 57.5, amount: amounts[0], payout: "" },
+      { receiver: PARTNER_A, percent: 30, amount: amounts[1], payout: "" },
+      { receiver: PARTNER_B, percent: 12.5, amount: amounts[2], payout: "" },
+    ];
+    await ledger.record(settledEntry("req-1", "0.01", shares(["0.00575", "0.003", "0.00125"])));
+    await ledger.record(settledEntry("req-2", "0.02", shares(["0.0115", "0.006", "0.0025"])));
+    await ledger.record({ ...settledEntry("req-3", "0.01", shares(["0.00575", "0.003", "0.00125"])), outcome: "dev_bypass" });
+    return ledger;
+  }
+
+  it("sends one batch per network with a transfer per partner for all unpaid shares and marks them paid", async () => {
+    const ledger = await ledgerWithShares();
+    const batches: PayoutBatch[] = [];
+    const job = createPayoutJob(loadConfig(env), ledger, log, recordingTransfer(batches));
+
+    const results = await job.run();
+
+    expect(batches).toEqual([
+      {
+        network: "eip155:8453",
+        asset: env.USDC_CONTRACT,
+        transfers: [
+          { to: PARTNER_A, amount: 9000n },
+          { to: PARTNER_B, amount: 3750n },
+        ],
+      },
+    ]);
+    const txHash = `0x${"1".padStart(64, "0")}`;
+    expect(results.map((result) => [result.receiver, result.amountUsdc, result.shares, result.txHash])).toEqual([
+      [PARTNER_A, "0.009", 2, txHash],
+      [PARTNER_B, "0.00375", 2, txHash],
+    ]);
+    expect((await ledger.get("req-2"))?.splits?.map((split) => split.payout)).toEqual(["", txHash, txHash]);
+    expect((await ledger.get("req-3"))?.splits?.every((split) => split.payout === "")).toBe(true);
+
+    expect(await job.run()).toEqual([]);
+    expect(batches).toHaveLength(1);
+
+    const reused = settledEntry("req-2", "0.02", [{ receiver: PARTNER_A, percent: 30, amount: "0.006", payout: "" }]);
+    await ledger.record({ ...reused, requestId: "req-4" });
+    await expect(ledger.record(reused)).rejects.toThrow(/UNIQUE constraint failed/);
+    expect(await ledger.unpaidShares()).toEqual([{ requestId: "req-4", network: "eip155:8453", receiver: PARTNER_A, amount: "0.006" }]);
+    await ledger.close();
+  });
+
+  it("waits for the minimum and retries failed transfers, but not unconfirmed ones", async () => {
+    const ledger = await ledgerWithShares();
+    const batches: PayoutBatch[] = [];
+    const waiting = createPayoutJob(loadConfig({ ...env, PAYOUT_MIN_USDC: "0.005" }), ledger, log, recordingTransfer(batches));
+    expect((await waiting.run()).map((result) => result.receiver)).toEqual([PARTNER_A]);
+
+    const failing = createPayoutJob(loadConfig(env), ledger, log, async () => {
+      throw new Error("insufficient funds");
+    });
+    expect((await failing.run())[0]).toMatchObject({ receiver: PARTNER_B, error: "insufficient funds" });
+    expect((await ledger.unpaidShares()).map((share) => share.receiver)).toEqual([PARTNER_B, PARTNER_B]);
+
+    const unconfirmed = createPayoutJob(loadConfig(env), ledger, log, async () => {
+      throw new PayoutUnconfirmedError(`0x${"cd".repeat(32)}`, new Error("timeout"));
+    });
+    expect((await unconfirmed.run())[0]?.error).toContain("was sent but not confirmed");
+    expect(await ledger.unpaidShares()).toEqual([]);
+    expect((await ledger.get("req-1"))?.splits?.[2]?.payout).toBe(`sending:0x${"cd".repeat(32)}`);
+    await ledger.close();
+  });
+
+  it("pays every partner on a network in one transaction on a local chain", async () => {
+    const chain = await startLocalChain();
+    try {
+      const seller = privateKeyToAccount(env.SELLER_PRIVATE_KEY as `0x${string}`);
+      const config = loadConfig({ ...env, BASE_RPC_URL: chain.url, USDC_CONTRACT: chain.usdc, RECEIVER_ADDRESS: seller.address });
+      await chain.fund(seller.address, 1_000_000n);
+      const ledger = await ledgerWithShares();
+
+      const results = await createPayoutJob(config, ledger, log).run();
+
+      expect(results.map((result) => [result.receiver, result.error])).toEqual([
+        [PARTNER_A, undefined],
+        [PARTNER_B, undefined],
+      ]);
+      expect(new Set(results.map((result) => result.txHash)).size).toBe(1);
+      expect(await chain.usdcBalance(PARTNER_A)).toBe(9000n);
+      expect(await chain.usdcBalance(PARTNER_B)).toBe(3750n);
+      expect(await chain.usdcBalance(seller.address)).toBe(1_000_000n - 12_750n);
+      expect((await ledger.get("req-1"))?.splits?.map((split) => split.payout)).toEqual(["", results[0]?.txHash, results[0]?.txHash]);
+      await ledger.close();
+    } finally {
+      await chain.close();
+    }
+  }, 60_000);
+});
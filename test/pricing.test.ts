@@ -0,0 +1,132 @@
+import { decodePaymentRequiredHeader } from "@x402/core/http";
+import { describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import {
+  PricingRegistry,
+  assertPaidRoutesPriced,
+  baseUnitsToUsdc,
+  createPricingRegistry,
+  usdcToBaseUnits,
+} from "../src/lib/pricing.js";
+import { PAID_ROUTES } from "../src/routes/v1/index.js";
+
+function setEnv(overrides: Record<string, string> = {}): void {
+  const defaults: Record<string, string> = {
+    NODE_ENV: "test",
+    CHAIN_ID: "8453",
+    BASE_RPC_URL: "https://mainnet.base.org",
+    SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+    USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+    PRICE_USDC: "0.01",
+    SERVICE_NAME: "x402-template-test",
+    PUBLIC_BASE_URL: "http://127.0.0.1",
+    X402_DEV_BYPASS: "true",
+  };
+
+  for (const [key, value] of Object.entries({ ...defaults, ...overrides })) {
+    process.env[key] = value;
+  }
+}
+
+describe("pricing registry", () => {
+  it("converts between USDC and base units", () => {
+    expect(usdcToBaseUnits("0.003")).toBe("3000");
+    expect(usdcToBaseUnits("1.5")).toBe("1500000");
+    expect(baseUnitsToUsdc("3000")).toBe("0.003");
+    expect(baseUnitsToUsdc("1500000")).toBe("1.5");
+    expect(baseUnitsToUsdc("2000000")).toBe("2");
+  });
+
+  it("prices echo and extract from PRICE_USDC", () => {
+    setEnv({ PRICE_USDC: "0.04" });
+    const registry = createPricingRegistry(loadConfig(), PAID_ROUTES);
+
+    expect(registry.quote("POST", "/v1/echo", {})).toEqual({ priceUsdc: "0.04", priceBaseUnits: "40000" });
+    expect(registry.quote("POST", "/v1/extract", { url: "https://example.com" }).priceUsdc).toBe("0.04");
+  });
+
+  it("quotes usage-based prices from the request body", () => {
+    setEnv({ PRICE_USDC: "0.04" });
+    const registry = createPricingRegistry(loadConfig(), PAID_ROUTES);
+
+    expect(registry.quote("POST", "/v1/dns", { domain: "example.com", records: ["A"] }).priceUsdc).toBe("0.002");
+    expect(registry.quote("POST", "/v1/dns", { domain: "example.com", records: ["A", "MX", "TXT"] }).priceUsdc).toBe(
+      "0.004",
+    );
+    expect(registry.quote("POST", "/v1/sentiment", { text: "short" }).priceUsdc).toBe("0.002");
+    expect(registry.quote("POST", "/v1/sentiment", { text: "a".repeat(2049) }).priceUsdc).toBe("0.004");
+    expect(
+      registry.quote("POST", "/v1/extract", {
+        url: "https://example.com",
+        options: { includeLinks: true, includeImages: true },
+      }).priceBaseUnits,
+    ).toBe("42000");
+  });
+
+  it("fails the startup check when a paid route has no price", () => {
+    const registry = new PricingRegistry({ "POST /v1/echo": { baseUsdc: "0.01" } });
+
+    expect(() => assertPaidRoutesPriced(["POST /v1/echo"], registry)).not.toThrow();
+    expect(() => assertPaidRoutesPriced(["POST /v1/echo", "POST /v1/unpriced"], registry)).toThrow(
+      /POST \/v1\/unpriced/,
+    );
+  });
+
+  it("keeps catalog, dev bypass context and receipt amounts in agreement", async () => {
+    setEnv({ PRICE_USDC: "0.04" });
+    const app = await buildApp(loadConfig());
+
+    const catalog = await app.inject({ method: "GET", url: "/catalog" });
+    const echoEntry = (catalog.json() as { endpoints: Array<{ path: string; priceUsdc: string }> }).endpoints.find(
+      (ep) => ep.path === "/v1/echo",
+    );
+    expect(echoEntry?.priceUsdc).toBe("0.04");
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/v1/echo",
+      headers: {
+        "content-type": "application/json",
+        "idempotency-key": "pricing-echo-1",
+        "x-dev-bypass": "true",
+      },
+      payload: { ping: "pong" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      receipt: {
+        amount: "0.04",
+      },
+    });
+
+    await app.close();
+  });
+
+  it("quotes the computed amount for the specific body in the 402 challenge", async () => {
+    setEnv({ X402_DEV_BYPASS: "false", LOG_LEVEL: "silent" });
+    const app = await buildApp(loadConfig());
+
+    const challenge = async (records: string[]) => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/v1/dns",
+        headers: {
+          "content-type": "application/json",
+          "idempotency-key": `pricing-dns-${records.length}`,
+        },
+        payload: { domain: "example.com", records },
+      });
+      expect(response.statusCode).toBe(402);
+      return decodePaymentRequiredHeader(String(response.headers["payment-required"]));
+    };
+
+    expect((await challenge(["A"])).accepts[0]?.amount).toBe("2000");
+    expect((await challenge(["A", "MX", "TXT", "NS"])).accepts[0]?.amount).toBe("5000");
+
+    await app.close();
+  });
+});
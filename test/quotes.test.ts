@@ -0,0 +1,144 @@
+import { decodePaymentRequiredHeader, encodePaymentSignatureHeader } from "@x402/core/http";
+import type { FastifyInstance } from "fastify";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp, type AppDependencies } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { MemoryCreditStore } from "../src/lib/credits.js";
+import { createPricingRegistry } from "../src/lib/pricing.js";
+import { PriceQuotes } from "../src/lib/quotes.js";
+import { definePaidRoute } from "../src/routes/paidRoute.js";
+import { createTestBuyer, testEnv } from "./helpers/payments.js";
+
+const env: Record<string, string> = { ...testEnv, PASS_SECRET: "quote-test-secret-quote-test-secret" };
+
+// Base price from PRICE_USDC, so a second app with a different PRICE_USDC stands in for a price change.
+// The schema default means the validated body differs from the one the client sends.
+const measureRoute = definePaidRoute<{ text: string }, { length: number }>({
+  name: "measure",
+  description: "Count characters",
+  price: { baseUsdc: (config) => config.priceUsdc, perUnitUsdc: "0.001", unit: "character", countUnits: (body) => body.text.length },
+  bodySchema: {
+    type: "object",
+    properties: { text: { type: "string" }, unit: { type: "string", default: "character" } },
+    required: ["text"],
+  },
+  dataSchema: { properties: { length: { type: "number" } }, required: ["length"] },
+  docs: { body: { text: "string (required)" }, data: { length: "Character count" } },
+  handler: (request) => ({ length: request.body.text.length }),
+});
+
+const apps: FastifyInstance[] = [];
+
+afterEach(async () => {
+  await Promise.all(apps.splice(0).map((app) => app.close()));
+});
+
+async function start(extraEnv: Record<string, string> = {}, deps: AppDependencies = {}) {
+  const app = await buildApp(loadConfig({ ...env, ...extraEnv }), { paidRoutes: [measureRoute], ...deps });
+  apps.push(app);
+  return app;
+}
+
+function requestQuote(app: FastifyInstance, payload: Record<string, unknown>) {
+  return app.inject({ method: "POST", url: "/quote", payload });
+}
+
+function measure(app: FastifyInstance, text: string, headers: Record<string, string> = {}) {
+  return app.inject({
+    method: "POST",
+    url: "/v1/measure",
+    headers: { "content-type": "application/json", "idempotency-key": `measure-${text}-${Math.random()}`, ...headers },
+    payload: { text },
+  });
+}
+
+describe("price quotes", () => {
+  it("quotes the exact amount and payment requirements for a route and body", async () => {
+    const app = await start();
+
+    const response = await requestQuote(app, { path: "/v1/measure", body: { text: "abcd" } });
+
+    expect(response.statusCode).toBe(200);
+    const quote = response.json();
+    expect(quote).toMatchObject({
+      ok: true,
+      route: "POST /v1/measure",
+      price: { usdc: "0.014", baseUnits: "14000", description: "0.014 USDC for this request (0.01 USDC plus 0.001 USDC per character)" },
+      x402Version: 2,
+      accepts: [{ scheme: "exact", network: "eip155:8453", amount: "14000", payTo: env.RECEIVER_ADDRESS }],
+    });
+    expect(quote.quoteId).toMatch(/^q_/);
+    expect(Date.parse(quote.expiresAt) - Date.now()).toBeGreaterThan(290_000);
+
+    const unknown = await requestQuote(app, { path: "/v1/nope", body: {} });
+    expect(unknown.statusCode).toBe(404);
+    expect(unknown.json().error.code).toBe("QUOTE_INVALID");
+    expect((await requestQuote(app, { path: "/v1/measure", body: {} })).json().error.code).toBe("QUOTE_INVALID");
+  });
+
+  it("charges the quoted amount over x402 after the list price changes", async () => {
+    const quoted = (await requestQuote(await start(), { path: "/v1/measure", body: { text: "abcd" } })).json();
+
+    const { account, client, facilitator } = createTestBuyer(loadConfig({ ...env, PRICE_USDC: "0.05" }));
+    const app = await start({ PRICE_USDC: "0.05" }, { facilitatorClient: facilitator });
+
+    const listed = await measure(app, "abcd");
+    expect(decodePaymentRequiredHeader(String(listed.headers["payment-required"])).accepts[0]?.amount).toBe("54000");
+
+    const headers = { "x-quote-id": quoted.quoteId, "idempotency-key": "quoted-measure" };
+    const challenge = await measure(app, "abcd", headers);
+    expect(challenge.statusCode).toBe(402);
+    expect(challenge.json().price.usdc).toBe("0.014");
+    const paymentRequired = decodePaymentRequiredHeader(String(challenge.headers["payment-required"]));
+    expect(paymentRequired.accepts[0]?.amount).toBe("14000");
+
+    const payment = await client.createPaymentPayload(paymentRequired);
+    const paid = await measure(app, "abcd", { ...headers, "payment-signature": encodePaymentSignatureHeader(payment) });
+
+    expect(paid.statusCode).toBe(200);
+    expect(paid.json().receipt).toMatchObject({ amount: "0.014", payer: account.address });
+    expect(paid.json().receipt.quoteId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("debits the quoted amount from credits", async () => {
+    const quoted = (await requestQuote(await start(), { path: "/v1/measure", body: { text: "ab" } })).json();
+    const credits = new MemoryCreditStore();
+    const app = await start({ PRICE_USDC: "0.05" }, { credits });
+    const wallet = privateKeyToAccount(generatePrivateKey()).address;
+    await credits.credit(wallet, 1_000_000n);
+    const token = await credits.issueToken(wallet);
+
+    const response = await measure(app, "ab", { "x-credit-token": token, "x-quote-id": quoted.quoteId });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().receipt.credits).toEqual({ debitedUsdc: "0.012", balanceUsdc: "0.988" });
+  });
+
+  it("rejects tampered and expired quotes", async () => {
+    const app = await start({ X402_DEV_BYPASS: "true" });
+    const bypass = { "x-dev-bypass": "true" };
+    const { quoteId } = (await requestQuote(app, { path: "/v1/measure", body: { text: "abcd" } })).json();
+
+    const honored = await measure(app, "abcd", { ...bypass, "x-quote-id": quoteId });
+    expect(honored.json().receipt.amount).toBe("0.014");
+
+    const otherBody = await measure(app, "abcdefgh", { ...bypass, "x-quote-id": quoteId });
+    expect(otherBody.statusCode).toBe(400);
+    expect(otherBody.json().error).toEqual({ code: "QUOTE_INVALID", message: "Quote was issued for a different request body" });
+
+    const [payload = "", mac] = quoteId.slice(2).split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    const cheaper = Buffer.from(JSON.stringify({ ...claims, priceUsdc: "0.001", priceBaseUnits: "1000" })).toString("base64url");
+    const tampered = await measure(app, "abcd", { ...bypass, "x-quote-id": `q_${cheaper}.${mac}` });
+    expect(tampered.statusCode).toBe(400);
+    expect(tampered.json().error.code).toBe("QUOTE_INVALID");
+
+    const pricing = createPricingRegistry(loadConfig(env), [measureRoute]);
+    const stale = new PriceQuotes(env.PASS_SECRET ?? "", pricing, 60).issue("POST", "/v1/measure", { text: "abcd", unit: "character" }, Date.now() - 120_000);
+    const expired = await measure(app, "abcd", { ...bypass, "x-quote-id": stale.quoteId });
+    expect(expired.statusCode).toBe(402);
+    expect(expired.json().error.code).toBe("QUOTE_EXPIRED");
+  });
+});
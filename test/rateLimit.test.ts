@@ -0,0 +1,213 @@
+import type { FastifyInstance } from "fastify";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { MemoryCreditStore } from "../src/lib/credits.js";
+import { definePaidRoute } from "../src/routes/paidRoute.js";
+import { echoRoute } from "../src/routes/v1/echo.js";
+import { AppError } from "../src/lib/errors.js";
+import { createTestBuyer, payFor, postJson, signChallenge, testEnv, withPayment } from "./helpers/payments.js";
+
+const alice = privateKeyToAccount("0x2222222222222222222222222222222222222222222222222222222222222222").address;
+const bob = privateKeyToAccount("0x3333333333333333333333333333333333333333333333333333333333333333").address;
+
+const pingRoute = definePaidRoute<Record<string, never>, { pong: boolean }>({
+  name: "ping",
+  description: "Test route with its own budget",
+  price: "0.001",
+  rateLimitPerMin: 1,
+  bodySchema: { type: "object" },
+  dataSchema: { properties: { pong: { type: "boolean" } }, required: ["pong"] },
+  docs: { body: {}, data: { pong: "Always true" } },
+  handler: () => ({ pong: true }),
+});
+
+const brokenRoute = definePaidRoute<Record<string, never>, { ok: boolean }>({
+  name: "broken",
+  description: "Fails after payment is verified",
+  price: "0.01",
+  bodySchema: { type: "object" },
+  dataSchema: { properties: { ok: { type: "boolean" } } },
+  docs: { data: { ok: "Never returned" } },
+  handler: () => {
+    throw new AppError(502, "INTERNAL_ERROR", "Upstream fetch failed");
+  },
+});
+
+let app: FastifyInstance | undefined;
+
+async function withCredits(overrides: Record<string, string>) {
+  const credits = new MemoryCreditStore();
+  app = await buildApp(loadConfig({ ...testEnv, ...overrides }), { credits, paidRoutes: [echoRoute, pingRoute] });
+  await credits.credit(alice, 1_000_000n);
+  await credits.credit(bob, 1_000_000n);
+  const tokens = { alice: await credits.issueToken(alice), bob: await credits.issueToken(bob) };
+  const target = app;
+  let calls = 0;
+  const call = (token: string, url = "/v1/echo") => {
+    calls += 1;
+    return target.inject({
+      method: "POST",
+      url,
+      headers: { "content-type": "application/json", "idempotency-key": `call-${calls}`, "x-credit-token": token },
+      payload: url === "/v1/echo" ? { hello: "world" } : {},
+    });
+  };
+  return { tokens, call };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await app?.close();
+  app = undefined;
+});
+
+describe("rate limiting", () => {
+  it("reports the limit, remaining quota and reset on every response", async () => {
+    app = await buildApp(loadConfig(testEnv));
+
+    const first = await app.inject({ method: "GET", url: "/healthz" });
+    const second = await app.inject({ method: "GET", url: "/healthz" });
+
+    expect(first.headers).toMatchObject({ "ratelimit-limit": "100", "ratelimit-remaining": "99", "ratelimit-policy": "100;w=60" });
+    expect(second.headers["ratelimit-remaining"]).toBe("98");
+    expect(Number(first.headers["ratelimit-reset"])).toBeGreaterThan(0);
+    expect(Number(first.headers["ratelimit-reset"])).toBeLessThanOrEqual(60);
+    expect(first.headers["retry-after"]).toBeUndefined();
+  });
+
+  it("does not allow a double burst across a window boundary", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:59.000Z"));
+    app = await buildApp(loadConfig({ ...testEnv, RATE_LIMIT_PER_MIN: "2" }));
+
+    expect((await app.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(200);
+    expect((await app.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(200);
+
+    vi.setSystemTime(new Date("2026-01-01T00:01:01.000Z"));
+    const limited = await app.inject({ method: "GET", url: "/healthz" });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json()).toMatchObject({ ok: false, error: { code: "RATE_LIMITED" } });
+    expect(limited.headers).toMatchObject({ "ratelimit-remaining": "0", "retry-after": "59", "cache-control": "no-store" });
+
+    vi.setSystemTime(new Date("2026-01-01T00:02:00.000Z"));
+    expect((await app.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(200);
+  });
+
+  it("tells unpaid callers when to retry", async () => {
+    app = await buildApp(loadConfig({ ...testEnv, RATE_LIMIT_UNPAID_PER_MIN: "1" }));
+    const request = {
+      method: "POST" as const,
+      url: "/v1/echo",
+      headers: { "content-type": "application/json", "idempotency-key": "unpaid" },
+      payload: { hello: "world" },
+    };
+
+    expect((await app.inject(request)).statusCode).toBe(402);
+    const limited = await app.inject(request);
+
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers["ratelimit-limit"]).toBe("1");
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+  });
+
+  it("documents the policy in /meta", async () => {
+    app = await buildApp(loadConfig(testEnv));
+
+    const meta = await app.inject({ method: "GET", url: "/meta" });
+
+    expect(meta.json().rateLimits).toMatchObject({
+      algorithm: "sliding_window",
+      policies: [
+        { name: "global", key: "ip", limit: 100, windowSeconds: 60 },
+        { name: "unpaid", key: "ip", limit: 20, windowSeconds: 60 },
+        { name: "wallet", key: "wallet", limit: 60, windowSeconds: 60 },
+        { name: "route:POST /v1/extract", key: "wallet_or_ip", limit: 20, windowSeconds: 60 },
+        { name: "route:POST /v1/dns", key: "wallet_or_ip", limit: 30, windowSeconds: 60 },
+      ],
+    });
+  });
+
+  it("limits each paying wallet separately, whatever IP it calls from", async () => {
+    const { tokens, call } = await withCredits({ RATE_LIMIT_WALLET_PER_MIN: "2" });
+
+    expect((await call(tokens.alice)).statusCode).toBe(200);
+    const second = await call(tokens.alice);
+    expect(second.statusCode).toBe(200);
+    expect(second.headers).toMatchObject({ "ratelimit-limit": "2", "ratelimit-remaining": "0" });
+
+    const limited = await call(tokens.alice);
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json()).toMatchObject({ error: { code: "RATE_LIMITED", message: "Wallet rate limit exceeded" } });
+    expect(limited.json().payment).toMatchObject({ charged: false });
+    expect(Number(limited.headers["retry-after"])).toBeGreaterThan(0);
+
+    expect((await call(tokens.bob)).statusCode).toBe(200);
+  });
+
+  it("applies per-route budgets on top of the wallet limit", async () => {
+    const { tokens, call } = await withCredits({});
+
+    expect((await call(tokens.alice, "/v1/ping")).statusCode).toBe(200);
+    const limited = await call(tokens.alice, "/v1/ping");
+    expect(limited.statusCode).toBe(429);
+    expect(limited.json().error.message).toBe("Route rate limit exceeded");
+
+    expect((await call(tokens.alice)).statusCode).toBe(200);
+    expect((await call(tokens.bob, "/v1/ping")).statusCode).toBe(200);
+  });
+
+  it("stops x402 payments once a payer's daily spend cap would be exceeded", async () => {
+    const config = loadConfig({ ...testEnv, SPEND_CAP_DAILY_USDC: "0.015" });
+    const { client, facilitator } = createTestBuyer(config);
+    const target = await buildApp(config, { facilitatorClient: facilitator });
+    app = target;
+
+    const pay = async (idempotencyKey: string) =>
+      (await payFor(target, client, postJson("/v1/echo", idempotencyKey, { hello: "world" }))).response;
+
+    expect((await pay("spend-1")).statusCode).toBe(200);
+    const capped = await pay("spend-2");
+
+    expect(capped.statusCode).toBe(429);
+    expect(capped.json()).toMatchObject({ ok: false, error: { code: "SPEND_CAP_EXCEEDED" }, payment: { charged: false } });
+    expect(capped.json().error.message).toMatch(/spent 0\.01 USDC today/);
+    expect(Number(capped.headers["retry-after"])).toBeLessThanOrEqual(24 * 60 * 60);
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("reserves spend before settling, so concurrent payments cannot overshoot the cap", async () => {
+    const config = loadConfig({ ...testEnv, SPEND_CAP_DAILY_USDC: "0.015" });
+    const { client, facilitator } = createTestBuyer(config);
+    // Slow settlement keeps both payments in flight past the cap check.
+    const settle: typeof facilitator.settle = async (payload, requirements) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return facilitator.settle(payload, requirements);
+    };
+    const target = await buildApp(config, { facilitatorClient: { ...facilitator, settle } });
+    app = target;
+
+    const requests = [postJson("/v1/echo", "race-1", { hello: "world" }), postJson("/v1/echo", "race-2", { hello: "world" })];
+    const paid = await Promise.all(requests.map(async (request) => withPayment(request, await signChallenge(target, client, request))));
+    const responses = await Promise.all(paid.map((request) => target.inject(request)));
+
+    expect(responses.map((response) => response.statusCode).sort()).toEqual([200, 429]);
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+
+  it("gives back the reserved spend when a payment is not settled", async () => {
+    const config = loadConfig({ ...testEnv, SPEND_CAP_DAILY_USDC: "0.015" });
+    const { client, facilitator } = createTestBuyer(config);
+    const target = await buildApp(config, { facilitatorClient: facilitator, paidRoutes: [echoRoute, brokenRoute] });
+    app = target;
+
+    const failed = await payFor(target, client, postJson("/v1/broken", "broken-1"));
+    expect(failed.response.statusCode).toBe(502);
+
+    const { response } = await payFor(target, client, postJson("/v1/echo", "after-broken", { hello: "world" }));
+    expect(response.statusCode).toBe(200);
+    expect(facilitator.settlements).toHaveLength(1);
+  });
+});
@@ -0,0 +1,213 @@
+import type { FastifyInstance } from "fastify";
+import { verifyTypedData, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildApp, type AppDependencies } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { creditAuthMessage, MemoryCreditStore } from "../src/lib/credits.js";
+import { MemoryLedger } from "../src/lib/ledger.js";
+import { createReceiptSigner } from "../src/lib/receipts.js";
+import type { TransactionStatus } from "../src/lib/transactions.js";
+import { createTestBuyer, payFor, postJson, testEnv } from "./helpers/payments.js";
+
+const RECEIPT_KEY = "0x4444444444444444444444444444444444444444444444444444444444444444";
+
+let app: FastifyInstance | undefined;
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+});
+
+async function paidEcho(extraEnv: Record<string, string> = {}, deps: AppDependencies = {}) {
+  const config = loadConfig({ ...testEnv, ...extraEnv });
+  const { account, client, facilitator } = createTestBuyer(config);
+  const target = await buildApp(config, { facilitatorClient: facilitator, ...deps });
+  app = target;
+
+  const { paid, response } = await payFor(target, client, postJson("/v1/echo", "receipt-test", { hello: "world" }));
+  expect(response.statusCode).toBe(200);
+  return { app: target, payer: account.address, response, replay: () => target.inject(paid) };
+}
+
+describe("signed receipts", () => {
+  it("signs the settled receipt and verifies it against the returned data", async () => {
+    const { app, payer, response } = await paidEcho();
+    const { data, receipt } = response.json();
+
+    expect(receipt.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(receipt.proof).toMatchObject({
+      scheme: "eip712",
+      signer: privateKeyToAccount(testEnv.SELLER_PRIVATE_KEY as Hex).address,
+      requestId: data.request_id,
+      route: "POST /v1/echo",
+    });
+    expect(receipt.payer).toBe(payer);
+
+    const verify = (body: unknown) => app.inject({ method: "POST", url: "/receipts/verify", payload: body as object });
+    expect((await verify({ receipt, data })).json()).toEqual({ ok: true, valid: true, signer: receipt.proof.signer });
+    expect((await verify({ receipt })).json().valid).toBe(true);
+
+    const inflated = await verify({ receipt: { ...receipt, amount: "100" }, data });
+    expect(inflated.json()).toMatchObject({ valid: false, reason: "Signature does not match the receipt" });
+    const swapped = await verify({ receipt, data: { ...data, echo: "something else" } });
+    expect(swapped.json()).toMatchObject({ valid: false, reason: "Data does not match the receipt's dataHash" });
+    const unsigned = await verify({ receipt: { ...receipt, proof: undefined } });
+    expect(unsigned.json()).toMatchObject({ valid: false, reason: "Receipt has no EIP-712 proof" });
+  });
+
+  it("publishes what is needed to verify receipts offline", async () => {
+    const { app, response } = await paidEcho({ RECEIPT_PRIVATE_KEY: RECEIPT_KEY });
+    const { receipt } = response.json();
+    const { receipts } = (await app.inject({ method: "GET", url: "/meta" })).json();
+
+    expect(receipts).toMatchObject({
+      scheme: "eip712",
+      signer: privateKeyToAccount(RECEIPT_KEY).address,
+      verifyUrl: "http://127.0.0.1/receipts/verify",
+      primaryType: "Receipt",
+      domain: { name: "x402-template-test", version: "1", chainId: 8453 },
+    });
+
+    const { proof } = receipt;
+    const valid = await verifyTypedData({
+      address: receipts.signer,
+      domain: receipts.domain,
+      types: { Receipt: receipts.types },
+      primaryType: "Receipt",
+      message: {
+        ...receipt,
+        requestId: proof.requestId,
+        route: proof.route,
+        dataHash: proof.dataHash,
+        issuedAt: BigInt(proof.issuedAt),
+        chainId: BigInt(receipt.chainId),
+      },
+      signature: proof.signature,
+    });
+    expect(valid).toBe(true);
+  });
+
+  it("replays the receipt exactly as it was first signed", async () => {
+    const { response, replay } = await paidEcho();
+
+    const replayed = await replay();
+
+    expect(replayed.headers["idempotent-replayed"]).toBe("true");
+    expect(replayed.json().receipt.proof).toEqual(response.json().receipt.proof);
+  });
+});
+
+describe("receipt lookup", () => {
+  it("reports the settlement status and block to holders of the receipt token", async () => {
+    let mined: TransactionStatus | undefined = undefined;
+    const lookups: string[] = [];
+    const { app, response } = await paidEcho(
+      {},
+      {
+        lookupTransaction: async (_network, txHash) => {
+          lookups.push(txHash);
+          return mined;
+        },
+      },
+    );
+    const { data, receipt } = response.json();
+    expect(receipt.statusUrl).toBe(`http://127.0.0.1/v1/receipts/${data.request_id}`);
+
+    const lookup = (token?: string, requestId = data.request_id) =>
+      app.inject({ method: "GET", url: `/v1/receipts/${requestId}`, headers: token ? { "x-receipt-token": token } : {} });
+
+    expect((await lookup()).statusCode).toBe(401);
+    expect((await lookup("forged")).statusCode).toBe(404);
+    expect((await lookup(receipt.statusToken, "another-request")).json().error.code).toBe("RECEIPT_NOT_FOUND");
+    // Tokens are bound to the ledger row's route and payer, not just its request id.
+    const signer = createReceiptSigner(loadConfig(testEnv));
+    const subject = { requestId: data.request_id, route: "/v1/echo", payer: receipt.payer };
+    expect(signer.statusToken(subject)).toBe(receipt.statusToken);
+    expect((await lookup(signer.statusToken({ ...subject, route: "/v1/dns" }))).statusCode).toBe(404);
+    expect((await lookup(signer.statusToken({ ...subject, payer: testEnv.RECEIVER_ADDRESS ?? "" }))).statusCode).toBe(404);
+
+    const pending = await lookup(receipt.statusToken);
+    expect(pending.statusCode).toBe(200);
+    expect(pending.json()).toMatchObject({ requestId: data.request_id, route: "/v1/echo", status: "settled", txHash: receipt.txHash });
+    expect(pending.json().blockNumber).toBeUndefined();
+
+    mined = { status: "success", blockNumber: 123n };
+    expect((await lookup(receipt.statusToken)).json()).toMatchObject({ status: "confirmed", blockNumber: 123 });
+    expect(lookups).toEqual([receipt.txHash, receipt.txHash]);
+  });
+
+  it("accepts status tokens on every instance that shares the receipt key and ledger", async () => {
+    const ledger = new MemoryLedger();
+    const env = { FACILITATOR_MODE: "remote", SELLER_PRIVATE_KEY: "", RECEIPT_PRIVATE_KEY: RECEIPT_KEY };
+    const { response } = await paidEcho(env, { ledger });
+    const { data, receipt } = response.json();
+
+    const config = loadConfig({ ...testEnv, ...env });
+    const replica = await buildApp(config, { ledger, facilitatorClient: createTestBuyer(config).facilitator });
+    try {
+      const lookup = await replica.inject({
+        method: "GET",
+        url: `/v1/receipts/${data.request_id}`,
+        headers: { "x-receipt-token": receipt.statusToken },
+      });
+      expect(lookup.statusCode).toBe(200);
+      expect(lookup.json()).toMatchObject({ requestId: data.request_id, status: "settled" });
+    } finally {
+      await replica.close();
+    }
+  });
+
+  it("lets the payer look receipts up with a credit token or a wallet signature", async () => {
+    const alice = privateKeyToAccount("0x2222222222222222222222222222222222222222222222222222222222222222");
+    const bob = privateKeyToAccount("0x3333333333333333333333333333333333333333333333333333333333333333");
+    const credits = new MemoryCreditStore();
+    const target = await buildApp(loadConfig(testEnv), { credits });
+    app = target;
+    await credits.credit(alice.address, 1_000_000n);
+    const tokens = { alice: await credits.issueToken(alice.address), bob: await credits.issueToken(bob.address) };
+
+    const paid = await target.inject({
+      method: "POST",
+      url: "/v1/echo",
+      headers: { "content-type": "application/json", "idempotency-key": "credit-receipt", "x-credit-token": tokens.alice },
+      payload: { hello: "world" },
+    });
+    const path = `/v1/receipts/${paid.json().data.request_id}`;
+
+    const byToken = await target.inject({ method: "GET", url: path, headers: { "x-credit-token": tokens.alice } });
+    expect(byToken.json()).toMatchObject({ payer: alice.address, paidMode: "credits", status: "settled", txHash: "" });
+    expect((await target.inject({ method: "GET", url: path, headers: { "x-credit-token": tokens.bob } })).statusCode).toBe(404);
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await alice.signMessage({ message: creditAuthMessage("GET", path, "", timestamp) });
+    const bySignature = await target.inject({
+      method: "GET",
+      url: path,
+      headers: { "x-credit-wallet": alice.address, "x-credit-timestamp": timestamp, "x-credit-signature": signature },
+    });
+    expect(bySignature.statusCode).toBe(200);
+  });
+
+  it("is not behind the payment gate", async () => {
+    const target = await buildApp(loadConfig({ ...testEnv, X402_DEV_BYPASS: "true", RATE_LIMIT_UNPAID_PER_MIN: "1" }));
+    app = target;
+    const paid = await target.inject({
+      method: "POST",
+      url: "/v1/echo",
+      headers: { "content-type": "application/json", "idempotency-key": "bypass-receipt", "x-dev-bypass": "true" },
+      payload: { hello: "world" },
+    });
+    const { data, receipt } = paid.json();
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      const lookup = await target.inject({
+        method: "GET",
+        url: `/v1/receipts/${data.request_id}`,
+        headers: { "x-receipt-token": receipt.statusToken },
+      });
+      expect(lookup.json()).toMatchObject({ ok: true, status: "dev_bypass" });
+    }
+  });
+});
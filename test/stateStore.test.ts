@@ -0,0 +1,183 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import Database from "better-sqlite3";
+import RedisMock from "ioredis-mock";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import {
+  createStateStores,
+  MemoryStateStore,
+  RedisStateStore,
+  SqliteStateStore,
+  type StateStore,
+} from "../src/lib/stateStore.js";
+
+const env: Record<string, string> = {
+  NODE_ENV: "test",
+  CHAIN_ID: "8453",
+  BASE_RPC_URL: "https://mainnet.base.org",
+  SELLER_PRIVATE_KEY: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  USDC_CONTRACT: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  RECEIVER_ADDRESS: "0x1111111111111111111111111111111111111111",
+  PRICE_USDC: "0.01",
+  SERVICE_NAME: "x402-template-test",
+  PUBLIC_BASE_URL: "http://127.0.0.1",
+  X402_DEV_BYPASS: "true",
+  LOG_LEVEL: "silent",
+};
+
+const redis = new RedisMock();
+
+beforeEach(async () => {
+  await redis.flushall();
+});
+
+const backends: Array<[string, (maxEntries?: number) => StateStore]> = [
+  ["memory", (maxEntries) => new MemoryStateStore(maxEntries)],
+  ["sqlite", (maxEntries) => new SqliteStateStore(new Database(":memory:"), "test", maxEntries)],
+  ["redis", () => new RedisStateStore(redis, "test")],
+];
+
+describe.each(backends)("%s state store", (_name, create) => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores JSON values until their TTL passes", async () => {
+    const store = create(100);
+
+    await store.set("entry", { statusCode: 200, body: { ok: true } }, 50);
+    expect(await store.get("entry")).toEqual({ statusCode: 200, body: { ok: true } });
+
+    await store.delete("entry");
+    expect(await store.get("entry")).toBeUndefined();
+
+    await store.set("short", 1, 20);
+    vi.advanceTimersByTime(19);
+    expect(await store.get("short")).toBe(1);
+    vi.advanceTimersByTime(2);
+    expect(await store.get("short")).toBeUndefined();
+  });
+
+  it("only sets absent keys", async () => {
+    const store = create(100);
+
+    expect(await store.setIfAbsent("lock", 1, 1000)).toBe(true);
+    expect(await store.setIfAbsent("lock", 2, 1000)).toBe(false);
+    expect(await store.get("lock")).toBe(1);
+  });
+
+  it("counts within a TTL that starts with the counter", async () => {
+    const store = create(100);
+
+    expect(await store.increment("hits", 60)).toBe(1);
+    expect(await store.increment("hits", 60)).toBe(2);
+    vi.advanceTimersByTime(30);
+    expect(await store.increment("hits", 60)).toBe(3);
+    vi.advanceTimersByTime(31);
+    expect(await store.increment("hits", 60)).toBe(1);
+  });
+});
+
+describe.each(backends.slice(0, 2))("%s state store capacity", (_name, create) => {
+  it("evicts the oldest entries beyond maxEntries", async () => {
+    const store = create(10);
+
+    for (let i = 0; i < 150; i += 1) {
+      await store.set(`key-${i}`, i, 60_000 + i);
+    }
+
+    expect(await store.get("key-0")).toBeUndefined();
+    expect(await store.get("key-149")).toBe(149);
+  });
+
+  it("keeps every live entry without maxEntries", async () => {
+    const store = create();
+
+    for (let i = 0; i < 150; i += 1) {
+      await store.increment(`spend-${i}`, 60_000, i);
+    }
+
+    expect(await store.get("spend-0")).toBe(0);
+    expect(await store.get("spend-149")).toBe(149);
+  });
+});
+
+describe("state config", () => {
+  it("reads the driver, TTLs and capacities", () => {
+    const config = loadConfig({ ...env, STATE_DRIVER: "redis", REDIS_URL: "redis://cache:6379", IDEMPOTENCY_TTL_SECONDS: "30" });
+
+    expect(config).toMatchObject({
+      stateDriver: "redis",
+      redisUrl: "redis://cache:6379",
+      idempotencyTtlMs: 30_000,
+      idempotencyMaxEntries: 10_000,
+      idempotencyLockTtlMs: 60_000,
+    });
+    expect(() => loadConfig({ ...env, STATE_DRIVER: "postgres" })).toThrow(/Invalid STATE_DRIVER/);
+  });
+});
+
+describe("durable state", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  async function echoTwice(config: ReturnType<typeof loadConfig>, state: () => ReturnType<typeof createStateStores>) {
+    const request = {
+      method: "POST" as const,
+      url: "/v1/echo",
+      headers: { "content-type": "application/json", "idempotency-key": "durable-1", "x-dev-bypass": "true" },
+      payload: { hello: "world" },
+    };
+
+    const first = await buildApp(config, { state: state() });
+    const original = await first.inject(request);
+    await first.close();
+
+    const restarted = await buildApp(config, { state: state() });
+    const replay = await restarted.inject(request);
+    await restarted.close();
+
+    expect(original.headers["idempotent-replayed"]).toBeUndefined();
+    expect(replay.headers["idempotent-replayed"]).toBe("true");
+    expect(replay.json()).toEqual(original.json());
+  }
+
+  it("replays idempotent responses across restarts with the sqlite driver", async () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-state-"));
+    const config = loadConfig({ ...env, STATE_DRIVER: "sqlite", STATE_PATH: join(dir, "state.db") });
+
+    await echoTwice(config, () => createStateStores(config));
+  });
+
+  it("replays idempotent responses across instances with the redis driver", async () => {
+    const config = loadConfig({ ...env, STATE_DRIVER: "redis" });
+
+    await echoTwice(config, () => createStateStores(config, redis));
+  });
+
+  it("shares rate-limit counters between instances", async () => {
+    const config = loadConfig({ ...env, STATE_DRIVER: "redis", RATE_LIMIT_PER_MIN: "2" });
+    const first = await buildApp(config, { state: createStateStores(config, redis) });
+    const second = await buildApp(config, { state: createStateStores(config, redis) });
+
+    expect((await first.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(200);
+    expect((await second.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(200);
+    expect((await first.inject({ method: "GET", url: "/healthz" })).statusCode).toBe(429);
+
+    await first.close();
+    await second.close();
+  });
+});
@@ -0,0 +1,157 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import type { FastifyInstance } from "fastify";
+import { privateKeyToAccount } from "viem/accounts";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { buildApp } from "../src/app.js";
+import { loadConfig } from "../src/config.js";
+import { MemoryCreditStore } from "../src/lib/credits.js";
+import type { WalletPolicyFile } from "../src/lib/walletPolicy.js";
+import { echoRoute } from "../src/routes/v1/echo.js";
+import { sentimentRoute } from "../src/routes/v1/sentiment.js";
+import { createTestBuyer, payFor, postJson, testEnv } from "./helpers/payments.js";
+
+const env: Record<string, string> = { ...testEnv, ADMIN_TOKEN: "admin-secret" };
+
+const alice = privateKeyToAccount("0x2222222222222222222222222222222222222222222222222222222222222222").address;
+const bob = privateKeyToAccount("0x3333333333333333333333333333333333333333333333333333333333333333").address;
+
+let dir: string;
+let policyPath: string;
+let app: FastifyInstance | undefined;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "x402-wallets-"));
+  policyPath = join(dir, "wallets.json");
+});
+
+afterEach(async () => {
+  await app?.close();
+  app = undefined;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writePolicy(policy: WalletPolicyFile | string): void {
+  writeFileSync(policyPath, typeof policy === "string" ? policy : JSON.stringify(policy));
+}
+
+async function withCredits(policy: WalletPolicyFile) {
+  writePolicy(policy);
+  const credits = new MemoryCreditStore();
+  const target = await buildApp(loadConfig({ ...env, WALLET_POLICY_PATH: policyPath }), {
+    credits,
+    paidRoutes: [echoRoute, sentimentRoute],
+  });
+  app = target;
+  await credits.credit(alice, 1_000_000n);
+  await credits.credit(bob, 1_000_000n);
+  const tokens = { alice: await credits.issueToken(alice), bob: await credits.issueToken(bob) };
+  let calls = 0;
+  const call = (token: string, url = "/v1/echo") => {
+    calls += 1;
+    return target.inject({
+      method: "POST",
+      url,
+      headers: { "content-type": "application/json", "idempotency-key": `call-${calls}`, "x-credit-token": token },
+      payload: { text: "What a lovely day." },
+    });
+  };
+  return { app: target, credits, tokens, call };
+}
+
+describe("wallet policy", () => {
+  it("refuses denied x402 payers before settling their payment", async () => {
+    const config = loadConfig({ ...env, WALLET_POLICY_PATH: policyPath });
+    const { account, client, facilitator } = createTestBuyer(config);
+    writePolicy({ deny: [account.address.toLowerCase()] });
+    const target = await buildApp(config, { facilitatorClient: facilitator });
+    app = target;
+
+    const { response } = await payFor(target, client, postJson("/v1/echo", "denied", { hello: "world" }));
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({ ok: false, error: { code: "WALLET_REJECTED" } });
+    expect(facilitator.settlements).toHaveLength(0);
+  });
+
+  it("refuses screened wallets without saying which list matched", async () => {
+    const { credits, tokens, call } = await withCredits({ deny: [alice], screened: [bob] });
+
+    const denied = await call(tokens.alice);
+    const screened = await call(tokens.bob);
+
+    expect(screened.statusCode).toBe(403);
+    expect(screened.json().error).toEqual(denied.json().error);
+    expect(await credits.balance(bob)).toBe(1_000_000n);
+  });
+
+  it("restricts allowlisted routes to allowlisted wallets", async () => {
+    const { tokens, call } = await withCredits({ allow: [alice], allowlistRoutes: ["POST /v1/sentiment"] });
+
+    expect((await call(tokens.alice, "/v1/sentiment")).statusCode).toBe(200);
+    const rejected = await call(tokens.bob, "/v1/sentiment");
+    expect(rejected.statusCode).toBe(403);
+    expect(rejected.json().error.message).toBe("POST /v1/sentiment is restricted to allowlisted wallets");
+    expect((await call(tokens.bob)).statusCode).toBe(200);
+  });
+
+  it("refuses requests without a payer on allowlisted routes", async () => {
+    writePolicy({ allow: [alice], allowlistRoutes: ["POST /v1/echo"] });
+    const target = await buildApp(loadConfig({ ...env, WALLET_POLICY_PATH: policyPath, X402_DEV_BYPASS: "true" }));
+    app = target;
+
+    const bypass = postJson("/v1/echo", "bypass", { hello: "world" });
+    const response = await target.inject({ ...bypass, headers: { ...bypass.headers, "x-dev-bypass": "true" } });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.message).toBe("POST /v1/echo is restricted to allowlisted wallets");
+  });
+
+  it("stops replaying stored responses to a payer denied after paying", async () => {
+    const config = loadConfig({ ...env, WALLET_POLICY_PATH: policyPath });
+    const { account, client, facilitator } = createTestBuyer(config);
+    writePolicy({});
+    const target = await buildApp(config, { facilitatorClient: facilitator });
+    app = target;
+    const { paid, response } = await payFor(target, client, postJson("/v1/echo", "later-denied", { hello: "world" }));
+    expect(response.statusCode).toBe(200);
+
+    writePolicy({ deny: [account.address] });
+    await target.inject({ method: "POST", url: "/admin/wallet-policy/reload", headers: { authorization: "Bearer admin-secret" } });
+    const retry = await target.inject(paid);
+
+    expect(retry.statusCode).toBe(403);
+    expect(retry.json().error.code).toBe("WALLET_REJECTED");
+    expect(retry.headers["idempotent-replayed"]).toBeUndefined();
+  });
+
+  it("reloads the file without a restart and keeps the old lists when the new file is invalid", async () => {
+    const { app, tokens, call } = await withCredits({});
+    const reload = () =>
+      app.inject({ method: "POST", url: "/admin/wallet-policy/reload", headers: { authorization: "Bearer admin-secret" } });
+
+    expect((await call(tokens.bob)).statusCode).toBe(200);
+
+    writePolicy({ deny: [bob] });
+    const reloaded = await reload();
+    expect(reloaded.statusCode).toBe(200);
+    expect(reloaded.json().policy).toMatchObject({ deny: 1, screened: 0, allow: 0, allowlistRoutes: [] });
+    expect((await call(tokens.bob)).statusCode).toBe(403);
+
+    writePolicy({ deny: ["not-an-address"] });
+    const invalid = await reload();
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().error.message).toMatch(/Invalid address/);
+    expect((await call(tokens.bob)).statusCode).toBe(403);
+    expect((await call(tokens.alice)).statusCode).toBe(200);
+  });
+
+  it("fails startup on an unreadable policy file", async () => {
+    writePolicy("{ not json");
+
+    await expect(buildApp(loadConfig({ ...env, WALLET_POLICY_PATH: policyPath }))).rejects.toThrow(/Cannot read wallet policy/);
+  });
+});